@@ -0,0 +1,69 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+import Fastify from 'fastify';
+import { authRoutes } from './auth-routes';
+import { STATE_COOKIE } from './hosted-auth';
+
+// Stand-in for the Nylas token endpoint
+let server: ReturnType<typeof Bun.serve>;
+const app = Fastify();
+
+beforeAll(async () => {
+  server = Bun.serve({
+    port: 3199,
+    fetch: () => Response.json({ grant_id: 'connected-grant', email: 'ada@example.com', provider: 'google' })
+  });
+  await app.register(authRoutes);
+});
+
+afterAll(async () => {
+  server.stop(true);
+  await app.close();
+});
+
+/**
+ * Start an authorization; returns its state and the cookie the browser got
+ */
+async function start() {
+  const response = await app.inject({ method: 'GET', url: '/auth/nylas/start?provider=google' });
+  const state = new URL(response.headers.location as string).searchParams.get('state')!;
+  const cookie = (response.headers['set-cookie'] as string).split(';')[0]!;
+  return { response, state, cookie };
+}
+
+describe('hosted authentication', () => {
+  test('sets an HttpOnly state cookie for the auth routes', async () => {
+    const { response, cookie } = await start();
+    expect(response.statusCode).toBe(302);
+    expect(cookie).toStartWith(`${STATE_COOKIE}=`);
+    expect(response.headers['set-cookie']).toContain('HttpOnly');
+    expect(response.headers['set-cookie']).toContain('Path=/auth/nylas');
+  });
+
+  test('completes the callback in the browser that started it', async () => {
+    const { state, cookie } = await start();
+    const response = await app.inject({
+      method: 'GET',
+      url: `/auth/nylas/callback?code=abc&state=${state}`,
+      headers: { cookie }
+    });
+    expect(response.statusCode).toBe(200);
+    expect(response.json()).toMatchObject({ success: true, grant_id: 'connected-grant' });
+  });
+
+  test.each([
+    ['without the cookie', () => undefined],
+    ['with the cookie of another authorization', (other: string) => other],
+    ['with a forged cookie', (_: string, state: string) => `${STATE_COOKIE}=${state}.forged`]
+  ])('refuses a callback %s', async (_, cookieFor) => {
+    const { state } = await start();
+    const { cookie: other } = await start();
+    const cookie = cookieFor(other, state);
+    const response = await app.inject({
+      method: 'GET',
+      url: `/auth/nylas/callback?code=abc&state=${state}`,
+      headers: cookie ? { cookie } : {}
+    });
+    expect(response.statusCode).toBe(400);
+    expect(response.json().message).toContain('not started in this browser');
+  });
+});
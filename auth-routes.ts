@@ -0,0 +1,102 @@
+/**
+ * Nylas Pub/Sub Integration - Hosted Authentication Routes
+ *
+ * Connect a mailbox: /auth/nylas/start redirects to Nylas, and Nylas sends
+ * the user back to /auth/nylas/callback with a code to exchange for a grant.
+ * The start route keeps the state in a signed cookie, and the callback only
+ * completes in the browser that has it.
+ *
+ * @license MIT
+ * @copyright Copyright (c) 2025 Aemal Sayer
+ */
+
+import type { FastifyInstance, FastifyRequest } from 'fastify';
+import { config } from './config';
+import {
+  completeAuthorization,
+  createAuthorizationUrl,
+  HostedAuthError,
+  signState,
+  STATE_COOKIE,
+  STATE_COOKIE_MAX_AGE_SECONDS
+} from './hosted-auth';
+
+interface StartQuerystring {
+  provider?: string;
+  login_hint?: string;
+}
+
+interface CallbackQuerystring {
+  code?: string;
+  state?: string;
+  error?: string;
+  error_description?: string;
+}
+
+// Only sent back to the auth routes; Lax still sends it on the redirect from Nylas
+function stateCookieHeader(value: string, maxAge: number): string {
+  const secure = config.auth.callbackUrl.startsWith('https:') ? '; Secure' : '';
+  return `${STATE_COOKIE}=${value}; Path=/auth/nylas; Max-Age=${maxAge}; HttpOnly; SameSite=Lax${secure}`;
+}
+
+function readCookie(request: FastifyRequest, name: string): string | undefined {
+  for (const pair of (request.headers.cookie ?? '').split(';')) {
+    const [key, ...value] = pair.trim().split('=');
+    if (key === name) {
+      return value.join('=');
+    }
+  }
+  return undefined;
+}
+
+export async function authRoutes(fastify: FastifyInstance) {
+  // e.g. /auth/nylas/start?provider=google&login_hint=user@example.com
+  fastify.get<{ Querystring: StartQuerystring }>('/auth/nylas/start', async (request, reply) => {
+    try {
+      const { url, state } = createAuthorizationUrl({
+        provider: request.query.provider,
+        loginHint: request.query.login_hint
+      });
+      reply.header('Set-Cookie', stateCookieHeader(signState(state), STATE_COOKIE_MAX_AGE_SECONDS));
+      return reply.redirect(url);
+    } catch (error) {
+      if (error instanceof HostedAuthError) {
+        return reply.code(error.statusCode).send({ error: error.message });
+      }
+      throw error;
+    }
+  });
+
+  fastify.get<{ Querystring: CallbackQuerystring }>('/auth/nylas/callback', async (request, reply) => {
+    const { code, state, error, error_description } = request.query;
+
+    // The user declined, or the provider refused the connection
+    if (error) {
+      request.log.warn(`⚠️ Authorization was not completed: ${error_description || error}`);
+      return reply.code(400).send({ error: 'Authorization failed', message: error_description || error });
+    }
+    if (!code || !state) {
+      return reply.code(400).send({ error: 'Missing "code" or "state"' });
+    }
+
+    // The state is single use, so the cookie is cleared whatever the outcome
+    reply.header('Set-Cookie', stateCookieHeader('', 0));
+    try {
+      const grant = await completeAuthorization(code, state, readCookie(request, STATE_COOKIE));
+      request.log.info({ grant_id: grant.grant_id, provider: grant.provider }, `🔑 Connected ${grant.email || 'mailbox'}`);
+
+      if (config.auth.successRedirect) {
+        const target = new URL(config.auth.successRedirect);
+        target.searchParams.set('grant_id', grant.grant_id);
+        return reply.redirect(target.toString());
+      }
+      return { success: true, grant_id: grant.grant_id, email: grant.email, provider: grant.provider };
+    } catch (error) {
+      if (error instanceof HostedAuthError) {
+        request.log.warn(`❌ ${error.message}`);
+        return reply.code(error.statusCode).send({ error: 'Authorization failed', message: error.message });
+      }
+      throw error;
+    }
+  });
+}
@@ -0,0 +1,203 @@
+/**
+ * Nylas Pub/Sub Integration - Local Calendar Mirror
+ *
+ * Keeps a local copy of calendar events, built from event.created,
+ * event.updated and event.deleted notifications, so scheduling features can
+ * see bookings as they change without polling Nylas.
+ *
+ * @license MIT
+ * @copyright Copyright (c) 2025 Aemal Sayer
+ */
+
+import { db } from './database';
+import { dispatcher } from './notification-dispatcher';
+import type { EventObject } from './notification-schemas';
+
+export interface MirroredEvent {
+  id: string;
+  grant_id: string | null;
+  calendar_id: string | null;
+  title: string | null;
+  status: string | null;
+  start_time: number | null; // Unix seconds; all-day events use midnight UTC
+  end_time: number | null;
+  busy: boolean;
+  object: EventObject; // Latest event payload
+  updated_at: number;
+}
+
+export interface EventQuery {
+  grant_id?: string;
+  calendar_id?: string;
+  start?: number; // Events ending after this (Unix seconds)
+  end?: number; // Events starting before this (Unix seconds)
+  limit?: number;
+}
+
+interface EventRow {
+  id: string;
+  grant_id: string | null;
+  calendar_id: string | null;
+  title: string | null;
+  status: string | null;
+  start_time: number | null;
+  end_time: number | null;
+  busy: number;
+  object_json: string;
+  updated_at: number;
+}
+
+db.exec(`
+  CREATE TABLE IF NOT EXISTS events (
+    id TEXT PRIMARY KEY,
+    grant_id TEXT,
+    calendar_id TEXT,
+    title TEXT,
+    status TEXT,
+    start_time INTEGER,
+    end_time INTEGER,
+    busy INTEGER NOT NULL DEFAULT 1,
+    object_json TEXT NOT NULL,
+    updated_at INTEGER NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS events_calendar_time ON events (calendar_id, start_time);
+`);
+
+const selectEventRow = db.prepare('SELECT * FROM events WHERE id = $id');
+
+const upsertEventRow = db.prepare(`
+  INSERT INTO events (id, grant_id, calendar_id, title, status, start_time, end_time, busy, object_json, updated_at)
+  VALUES ($id, $grant_id, $calendar_id, $title, $status, $start_time, $end_time, $busy, $object_json, $updated_at)
+  ON CONFLICT (id) DO UPDATE SET
+    grant_id = excluded.grant_id,
+    calendar_id = excluded.calendar_id,
+    title = excluded.title,
+    status = excluded.status,
+    start_time = excluded.start_time,
+    end_time = excluded.end_time,
+    busy = excluded.busy,
+    object_json = excluded.object_json,
+    updated_at = excluded.updated_at
+`);
+
+const deleteEventRow = db.prepare('DELETE FROM events WHERE id = $id');
+
+function toEvent(row: EventRow): MirroredEvent {
+  return {
+    id: row.id,
+    grant_id: row.grant_id,
+    calendar_id: row.calendar_id,
+    title: row.title,
+    status: row.status,
+    start_time: row.start_time,
+    end_time: row.end_time,
+    busy: row.busy === 1,
+    object: JSON.parse(row.object_json),
+    updated_at: row.updated_at
+  };
+}
+
+// "2025-05-01" -> Unix seconds at midnight UTC
+function dateToSeconds(date?: string): number | null {
+  if (!date) {
+    return null;
+  }
+  const timestamp = Date.parse(`${date}T00:00:00Z`);
+  return Number.isNaN(timestamp) ? null : timestamp / 1000;
+}
+
+/**
+ * Start and end of an event in Unix seconds, for timespan, date and datespan events
+ */
+export function eventTimes(when: EventObject['when']): { start: number | null; end: number | null } {
+  if (!when) {
+    return { start: null, end: null };
+  }
+  if (when.start_time !== undefined) {
+    return { start: when.start_time, end: when.end_time ?? when.start_time };
+  }
+  if (when.date) {
+    const start = dateToSeconds(when.date);
+    return { start, end: start === null ? null : start + 24 * 60 * 60 };
+  }
+  const start = dateToSeconds(when.start_date);
+  const end = dateToSeconds(when.end_date);
+  // Datespan end dates are inclusive
+  return { start, end: end === null ? null : end + 24 * 60 * 60 };
+}
+
+/**
+ * Insert or update an event from a notification payload. Fields missing from
+ * a truncated payload keep their previously mirrored values.
+ */
+export function upsertEvent(object: EventObject, grantId?: string): MirroredEvent {
+  const existingRow = selectEventRow.get({ $id: object.id }) as EventRow | null;
+  const merged: EventObject = existingRow ? { ...JSON.parse(existingRow.object_json), ...object } : object;
+  const { start, end } = eventTimes(merged.when);
+
+  upsertEventRow.run({
+    $id: merged.id,
+    $grant_id: merged.grant_id ?? grantId ?? existingRow?.grant_id ?? null,
+    $calendar_id: merged.calendar_id ?? null,
+    $title: merged.title ?? null,
+    $status: merged.status ?? null,
+    $start_time: start,
+    $end_time: end,
+    $busy: merged.busy === false ? 0 : 1,
+    $object_json: JSON.stringify(merged),
+    $updated_at: Date.now()
+  });
+  return getEvent(merged.id)!;
+}
+
+export function removeEvent(id: string): boolean {
+  return deleteEventRow.run({ $id: id }).changes > 0;
+}
+
+export function getEvent(id: string): MirroredEvent | null {
+  const row = selectEventRow.get({ $id: id }) as EventRow | null;
+  return row ? toEvent(row) : null;
+}
+
+/**
+ * List mirrored events in start order
+ */
+export function listEvents(query: EventQuery = {}): MirroredEvent[] {
+  const conditions: string[] = [];
+  const params: Record<string, string | number> = {};
+
+  if (query.grant_id) {
+    conditions.push('grant_id = $grant_id');
+    params.$grant_id = query.grant_id;
+  }
+  if (query.calendar_id) {
+    conditions.push('calendar_id = $calendar_id');
+    params.$calendar_id = query.calendar_id;
+  }
+  if (query.start !== undefined) {
+    conditions.push('end_time > $start');
+    params.$start = query.start;
+  }
+  if (query.end !== undefined) {
+    conditions.push('start_time < $end');
+    params.$end = query.end;
+  }
+  params.$limit = Number.isFinite(query.limit) ? Math.min(Math.max(Math.trunc(query.limit!), 1), 500) : 100;
+
+  const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+  const rows = db.prepare(`SELECT * FROM events ${where} ORDER BY start_time LIMIT $limit`).all(params) as EventRow[];
+  return rows.map(toEvent);
+}
+
+// Keep the mirror current from event notifications
+dispatcher.on('event.created', (notification) => {
+  upsertEvent(notification.data.object, notification.data.grant_id);
+}, 'calendar-mirror');
+
+dispatcher.on('event.updated', (notification) => {
+  upsertEvent(notification.data.object, notification.data.grant_id);
+}, 'calendar-mirror');
+
+dispatcher.on('event.deleted', (notification) => {
+  removeEvent(notification.data.object.id);
+}, 'calendar-mirror');
@@ -0,0 +1,239 @@
+/**
+ * Nylas Pub/Sub Integration - Calendar Routes
+ *
+ * Event CRUD and RSVP under /api/calendars/:calendarId/events, availability
+ * across participants, and queries over the local calendar mirror. The grant
+ * is taken from `grant_id` (query string or body) or the X-Grant-Id header.
+ *
+ * @license MIT
+ * @copyright Copyright (c) 2025 Aemal Sayer
+ */
+
+import type { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
+import axios from 'axios';
+import {
+  CalendarError,
+  createEvent,
+  deleteEvent,
+  getAvailability,
+  getEvent,
+  listEvents,
+  sendRsvp,
+  updateEvent,
+  type RsvpStatus
+} from './calendar';
+import { listEvents as listMirroredEvents } from './calendar-mirror';
+import { GrantUnavailableError, resolveGrant } from './grant-registry';
+
+interface CalendarParams {
+  calendarId: string;
+  id?: string;
+}
+
+interface CalendarQuerystring {
+  grant_id?: string;
+  start?: string;
+  end?: string;
+  limit?: string;
+  page_token?: string;
+  notify_participants?: string;
+}
+
+// Event fields are passed to Nylas as they are (title, when, participants, ...)
+type EventBody = Record<string, unknown> & { grant_id?: string };
+
+interface AvailabilityBody {
+  grant_id?: string;
+  participants?: { email: string }[];
+  start_time?: number | string;
+  end_time?: number | string;
+  duration_minutes?: unknown; // Whole minutes; checked by getAvailability
+  interval_minutes?: unknown;
+}
+
+// Largest page for both the Nylas and the mirror event lists
+const MAX_LIST_LIMIT = 500;
+
+type CalendarRequest = FastifyRequest<{ Params: CalendarParams; Querystring: CalendarQuerystring; Body: EventBody | undefined }>;
+
+/**
+ * Unix seconds or an ISO 8601 date, as Unix seconds
+ */
+function toSeconds(value: number | string | undefined, field: string): number | undefined {
+  if (value === undefined || value === '') {
+    return undefined;
+  }
+  const seconds = typeof value === 'number' || /^\d+$/.test(value) ? Number(value) : Date.parse(value) / 1000;
+  if (!Number.isFinite(seconds)) {
+    throw new CalendarError(400, `"${field}" must be a Unix timestamp in seconds or an ISO 8601 date`);
+  }
+  return Math.floor(seconds);
+}
+
+/**
+ * The `limit` query parameter, a whole number from 1 to MAX_LIST_LIMIT
+ */
+function toLimit(value: string | undefined): number | undefined {
+  if (value === undefined || value === '') {
+    return undefined;
+  }
+  const limit = /^\d+$/.test(value) ? Number(value) : NaN;
+  if (!(limit >= 1 && limit <= MAX_LIST_LIMIT)) {
+    throw new CalendarError(400, `"limit" must be a whole number from 1 to ${MAX_LIST_LIMIT}`);
+  }
+  return limit;
+}
+
+function calendarGrant(request: CalendarRequest | FastifyRequest<{ Body: AvailabilityBody | undefined }>): string {
+  const query = request.query as CalendarQuerystring;
+  const body = request.body as { grant_id?: string } | undefined;
+  return resolveGrant(body?.grant_id || query.grant_id || (request.headers['x-grant-id'] as string | undefined));
+}
+
+function eventFields(body: EventBody | undefined): Record<string, unknown> {
+  const { grant_id, ...event } = body ?? {};
+  return event;
+}
+
+function replyWithCalendarError(reply: FastifyReply, error: unknown) {
+  if (error instanceof CalendarError) {
+    return reply.code(error.statusCode).send({ error: 'Invalid request', message: error.message });
+  }
+  if (error instanceof GrantUnavailableError) {
+    return reply.code(error.statusCode).send({ error: 'Grant unavailable', grant_id: error.grantId, message: error.message });
+  }
+  if (axios.isAxiosError(error) && error.response) {
+    reply.log.error({ err: error }, `❌ Nylas calendar request failed: HTTP ${error.response.status}`);
+    return reply.code(error.response.status).send({
+      error: 'Nylas API error',
+      status: error.response.status,
+      message: error.response.data?.error?.message || error.response.data?.message || error.message
+    });
+  }
+  reply.log.error({ err: error }, '❌ Calendar request failed');
+  return reply.code(500).send({
+    error: 'Calendar request failed',
+    message: error instanceof Error ? error.message : 'Unknown error'
+  });
+}
+
+export async function calendarRoutes(fastify: FastifyInstance) {
+  // Events straight from Nylas, e.g. ?start=2025-05-01T00:00:00Z&end=2025-05-08T00:00:00Z
+  fastify.get('/api/calendars/:calendarId/events', async (request: CalendarRequest, reply) => {
+    try {
+      const { data, next_cursor } = await listEvents(calendarGrant(request), request.params.calendarId, {
+        start: toSeconds(request.query.start, 'start'),
+        end: toSeconds(request.query.end, 'end'),
+        limit: toLimit(request.query.limit),
+        page_token: request.query.page_token
+      });
+      return { data, count: data.length, next_cursor };
+    } catch (error) {
+      return replyWithCalendarError(reply, error);
+    }
+  });
+
+  fastify.get('/api/calendars/:calendarId/events/:id', async (request: CalendarRequest, reply) => {
+    try {
+      return await getEvent(calendarGrant(request), request.params.calendarId, request.params.id!);
+    } catch (error) {
+      return replyWithCalendarError(reply, error);
+    }
+  });
+
+  // Participants are invited unless ?notify_participants=false
+  fastify.post('/api/calendars/:calendarId/events', async (request: CalendarRequest, reply) => {
+    try {
+      const event = await createEvent(
+        calendarGrant(request),
+        request.params.calendarId,
+        eventFields(request.body),
+        request.query.notify_participants !== 'false'
+      );
+      request.log.info(`📅 Event created: ${event?.id} (${event?.title || 'Untitled event'})`);
+      return reply.code(201).send(event);
+    } catch (error) {
+      return replyWithCalendarError(reply, error);
+    }
+  });
+
+  fastify.put('/api/calendars/:calendarId/events/:id', async (request: CalendarRequest, reply) => {
+    try {
+      const event = await updateEvent(
+        calendarGrant(request),
+        request.params.calendarId,
+        request.params.id!,
+        eventFields(request.body),
+        request.query.notify_participants !== 'false'
+      );
+      request.log.info(`📅 Event updated: ${request.params.id}`);
+      return event;
+    } catch (error) {
+      return replyWithCalendarError(reply, error);
+    }
+  });
+
+  fastify.delete('/api/calendars/:calendarId/events/:id', async (request: CalendarRequest, reply) => {
+    try {
+      await deleteEvent(calendarGrant(request), request.params.calendarId, request.params.id!, request.query.notify_participants !== 'false');
+      request.log.info(`📅 Event deleted: ${request.params.id}`);
+      return reply.code(204).send();
+    } catch (error) {
+      return replyWithCalendarError(reply, error);
+    }
+  });
+
+  // Answer an invitation: { "status": "yes" | "no" | "maybe" }
+  fastify.post('/api/calendars/:calendarId/events/:id/rsvp', async (request: CalendarRequest, reply) => {
+    try {
+      const status = request.body?.status as RsvpStatus;
+      await sendRsvp(calendarGrant(request), request.params.calendarId, request.params.id!, status);
+      request.log.info(`📅 RSVP "${status}" sent for event ${request.params.id}`);
+      return { success: true, status };
+    } catch (error) {
+      return replyWithCalendarError(reply, error);
+    }
+  });
+
+  // Slots when every participant is free
+  fastify.post<{ Body: AvailabilityBody | undefined }>('/api/availability', async (request, reply) => {
+    try {
+      const body = request.body ?? {};
+      const startTime = toSeconds(body.start_time, 'start_time');
+      const endTime = toSeconds(body.end_time, 'end_time');
+      if (startTime === undefined || endTime === undefined) {
+        throw new CalendarError(400, 'The fields "start_time" and "end_time" are required');
+      }
+      if (!Array.isArray(body.participants) || body.participants.some((participant) => !participant?.email)) {
+        throw new CalendarError(400, 'The "participants" field must be an array of { "email": ... }');
+      }
+
+      const durationMinutes = (body.duration_minutes ?? 30) as number;
+      return await getAvailability(calendarGrant(request), {
+        emails: body.participants.map((participant) => participant.email),
+        start_time: startTime,
+        end_time: endTime,
+        duration_minutes: durationMinutes,
+        interval_minutes: (body.interval_minutes ?? durationMinutes) as number
+      });
+    } catch (error) {
+      return replyWithCalendarError(reply, error);
+    }
+  });
+
+  // Events from the local mirror (kept current by event notifications)
+  fastify.get<{ Querystring: CalendarQuerystring & { calendar_id?: string } }>('/api/events', async (request, reply) => {
+    try {
+      const events = listMirroredEvents({
+        grant_id: request.query.grant_id,
+        calendar_id: request.query.calendar_id,
+        start: toSeconds(request.query.start, 'start'),
+        end: toSeconds(request.query.end, 'end'),
+        limit: toLimit(request.query.limit)
+      });
+      return { data: events, count: events.length };
+    } catch (error) {
+      return replyWithCalendarError(reply, error);
+    }
+  });
+}
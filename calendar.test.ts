@@ -0,0 +1,97 @@
+import { afterAll, describe, expect, test } from 'bun:test';
+import Fastify from 'fastify';
+import { CalendarError, findFreeSlots, getAvailability, mergeSlots } from './calendar';
+import { listEvents } from './calendar-mirror';
+import { calendarRoutes } from './calendar-routes';
+
+const HOUR = 3600;
+
+describe('mergeSlots', () => {
+  test('merges overlapping and touching periods', () => {
+    expect(
+      mergeSlots([
+        { start_time: 5 * HOUR, end_time: 6 * HOUR },
+        { start_time: 1 * HOUR, end_time: 2 * HOUR },
+        { start_time: 2 * HOUR, end_time: 3 * HOUR },
+        { start_time: 5.5 * HOUR, end_time: 7 * HOUR }
+      ])
+    ).toEqual([
+      { start_time: 1 * HOUR, end_time: 3 * HOUR },
+      { start_time: 5 * HOUR, end_time: 7 * HOUR }
+    ]);
+  });
+});
+
+describe('findFreeSlots', () => {
+  test('returns every slot when nobody is busy', () => {
+    expect(findFreeSlots([], 0, 2 * HOUR, HOUR, HOUR)).toEqual([
+      { start_time: 0, end_time: HOUR },
+      { start_time: HOUR, end_time: 2 * HOUR }
+    ]);
+  });
+
+  test('skips slots that overlap a busy period', () => {
+    const busy = [{ start_time: 1 * HOUR, end_time: 2 * HOUR }];
+    expect(findFreeSlots(busy, 0, 4 * HOUR, HOUR, HOUR / 2)).toEqual([
+      { start_time: 0, end_time: HOUR },
+      { start_time: 2 * HOUR, end_time: 3 * HOUR },
+      { start_time: 2.5 * HOUR, end_time: 3.5 * HOUR },
+      { start_time: 3 * HOUR, end_time: 4 * HOUR }
+    ]);
+  });
+
+  test('does not return a slot that runs past the end of the range', () => {
+    expect(findFreeSlots([], 0, 90 * 60, HOUR, HOUR)).toEqual([{ start_time: 0, end_time: HOUR }]);
+  });
+});
+
+describe('getAvailability', () => {
+  const request = { emails: ['ada@example.com'], start_time: 0, end_time: 7 * 24 * HOUR, duration_minutes: 30, interval_minutes: 30 };
+
+  test.each([
+    ['a fractional interval', { interval_minutes: 0.0001 }],
+    ['a zero duration', { duration_minutes: 0 }],
+    ['a numeric string', { duration_minutes: '30' }],
+    ['a non-numeric string', { interval_minutes: 'abc' }]
+  ])('rejects %s', async (_, overrides) => {
+    const error = await getAvailability('grant', { ...request, ...overrides } as typeof request).catch((e) => e);
+    expect(error).toBeInstanceOf(CalendarError);
+    expect(error.statusCode).toBe(400);
+  });
+
+  test('rejects a range with too many candidate slots', async () => {
+    const error = await getAvailability('grant', { ...request, end_time: 365 * 24 * HOUR, interval_minutes: 1 }).catch((e) => e);
+    expect(error).toBeInstanceOf(CalendarError);
+    expect(error.message).toContain('slots');
+  });
+});
+
+describe('event list limits', () => {
+  const app = Fastify();
+  app.register(calendarRoutes);
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  test('the mirror falls back to the default for a non-finite limit', () => {
+    expect(() => listEvents({ limit: NaN })).not.toThrow();
+    expect(() => listEvents({ limit: Infinity })).not.toThrow();
+  });
+
+  test.each([
+    '/api/events?limit=abc',
+    '/api/events?limit=0',
+    '/api/events?limit=501',
+    '/api/events?limit=1.5',
+    '/api/calendars/primary/events?limit=abc'
+  ])('rejects %s with 400', async (url) => {
+    const response = await app.inject({ method: 'GET', url });
+    expect(response.statusCode).toBe(400);
+    expect(response.json().message).toContain('"limit"');
+  });
+
+  test('accepts a limit in range', async () => {
+    expect((await app.inject({ method: 'GET', url: '/api/events?limit=500' })).statusCode).toBe(200);
+  });
+});
@@ -0,0 +1,235 @@
+/**
+ * Nylas Pub/Sub Integration - Calendar
+ *
+ * Calendar events through the Nylas API (create, read, update, delete and
+ * RSVP) and availability: free/busy data for every participant is fetched
+ * from Nylas and merged into the slots when everyone is free.
+ *
+ * @license MIT
+ * @copyright Copyright (c) 2025 Aemal Sayer
+ */
+
+import axios from 'axios';
+import { config } from './config';
+
+export type RsvpStatus = 'yes' | 'no' | 'maybe';
+
+export interface EventListOptions {
+  start?: number; // Unix seconds
+  end?: number;
+  limit?: number;
+  page_token?: string;
+}
+
+// A busy or free period in Unix seconds
+export interface TimeSlot {
+  start_time: number;
+  end_time: number;
+}
+
+export interface AvailabilityRequest {
+  emails: string[];
+  start_time: number;
+  end_time: number;
+  duration_minutes: number;
+  interval_minutes: number;
+}
+
+export interface AvailabilityResult {
+  free_slots: TimeSlot[];
+  busy: Record<string, TimeSlot[]>;
+  errors: Record<string, string>; // Participants whose calendars could not be read
+}
+
+// Upper bound on candidate slots, so a tiny interval over a long range cannot stall the server
+export const MAX_AVAILABILITY_SLOTS = 10000;
+
+// Free/busy entry for one participant, as returned by Nylas
+interface FreeBusyEntry {
+  email: string;
+  object: 'free_busy' | 'error';
+  time_slots?: { start_time: number; end_time: number; status?: string }[];
+  error?: string;
+}
+
+/**
+ * Thrown when a calendar request is invalid
+ */
+export class CalendarError extends Error {
+  constructor(
+    public readonly statusCode: number,
+    message: string
+  ) {
+    super(message);
+    this.name = 'CalendarError';
+  }
+}
+
+function eventsUrl(grantId: string, eventId?: string, suffix = ''): string {
+  const base = `${config.nylas.apiUri}/v3/grants/${grantId}/events`;
+  return eventId ? `${base}/${encodeURIComponent(eventId)}${suffix}` : base;
+}
+
+function nylasHeaders() {
+  return {
+    'Authorization': `Bearer ${config.nylas.apiKey}`,
+    'Content-Type': 'application/json',
+    'Accept': 'application/json'
+  };
+}
+
+export async function listEvents(grantId: string, calendarId: string, options: EventListOptions = {}) {
+  const response = await axios.get(eventsUrl(grantId), {
+    headers: nylasHeaders(),
+    params: { calendar_id: calendarId, ...options }
+  });
+  return {
+    data: response.data.data ?? [],
+    next_cursor: response.data.next_cursor ?? null
+  };
+}
+
+export async function getEvent(grantId: string, calendarId: string, eventId: string) {
+  const response = await axios.get(eventsUrl(grantId, eventId), {
+    headers: nylasHeaders(),
+    params: { calendar_id: calendarId }
+  });
+  return response.data.data;
+}
+
+export async function createEvent(grantId: string, calendarId: string, event: Record<string, unknown>, notifyParticipants = true) {
+  if (!event.when) {
+    throw new CalendarError(400, 'The "when" field is required (e.g. { "start_time": ..., "end_time": ... })');
+  }
+  const response = await axios.post(eventsUrl(grantId), event, {
+    headers: nylasHeaders(),
+    params: { calendar_id: calendarId, notify_participants: notifyParticipants }
+  });
+  return response.data.data;
+}
+
+export async function updateEvent(
+  grantId: string,
+  calendarId: string,
+  eventId: string,
+  changes: Record<string, unknown>,
+  notifyParticipants = true
+) {
+  const response = await axios.put(eventsUrl(grantId, eventId), changes, {
+    headers: nylasHeaders(),
+    params: { calendar_id: calendarId, notify_participants: notifyParticipants }
+  });
+  return response.data.data;
+}
+
+export async function deleteEvent(grantId: string, calendarId: string, eventId: string, notifyParticipants = true) {
+  await axios.delete(eventsUrl(grantId, eventId), {
+    headers: nylasHeaders(),
+    params: { calendar_id: calendarId, notify_participants: notifyParticipants }
+  });
+}
+
+/**
+ * Answer an invitation on behalf of the grant
+ */
+export async function sendRsvp(grantId: string, calendarId: string, eventId: string, status: RsvpStatus) {
+  if (!['yes', 'no', 'maybe'].includes(status)) {
+    throw new CalendarError(400, 'The "status" field must be "yes", "no" or "maybe"');
+  }
+  await axios.post(eventsUrl(grantId, eventId, '/send-rsvp'), { status }, {
+    headers: nylasHeaders(),
+    params: { calendar_id: calendarId }
+  });
+}
+
+/**
+ * Sort and merge overlapping or touching periods
+ */
+export function mergeSlots(slots: TimeSlot[]): TimeSlot[] {
+  const sorted = [...slots].sort((a, b) => a.start_time - b.start_time);
+  const merged: TimeSlot[] = [];
+  for (const slot of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && slot.start_time <= last.end_time) {
+      last.end_time = Math.max(last.end_time, slot.end_time);
+    } else {
+      merged.push({ ...slot });
+    }
+  }
+  return merged;
+}
+
+/**
+ * Candidate meeting slots of `duration` seconds, every `interval` seconds,
+ * that do not overlap any busy period
+ */
+export function findFreeSlots(busy: TimeSlot[], start: number, end: number, duration: number, interval: number): TimeSlot[] {
+  const merged = mergeSlots(busy);
+  const free: TimeSlot[] = [];
+  let index = 0;
+
+  for (let slotStart = start; slotStart + duration <= end; slotStart += interval) {
+    const slotEnd = slotStart + duration;
+    // Skip busy periods that end before this slot
+    while (index < merged.length && merged[index]!.end_time <= slotStart) {
+      index++;
+    }
+    const next = merged[index];
+    if (!next || next.start_time >= slotEnd) {
+      free.push({ start_time: slotStart, end_time: slotEnd });
+    }
+  }
+  return free;
+}
+
+/**
+ * Free/busy for every participant, and the slots when all of them are free.
+ * Participants whose calendars cannot be read are reported in `errors` and
+ * left out of the calculation.
+ */
+export async function getAvailability(grantId: string, request: AvailabilityRequest): Promise<AvailabilityResult> {
+  const { emails, start_time, end_time, duration_minutes, interval_minutes } = request;
+  if (emails.length === 0) {
+    throw new CalendarError(400, 'At least one participant is required');
+  }
+  if (end_time <= start_time) {
+    throw new CalendarError(400, '"end_time" must be after "start_time"');
+  }
+  for (const [name, value] of Object.entries({ duration_minutes, interval_minutes })) {
+    if (!Number.isInteger(value) || value < 1) {
+      throw new CalendarError(400, `"${name}" must be a whole number of minutes, at least 1`);
+    }
+  }
+  if ((end_time - start_time) / (interval_minutes * 60) > MAX_AVAILABILITY_SLOTS) {
+    throw new CalendarError(
+      400,
+      `The range covers more than ${MAX_AVAILABILITY_SLOTS} slots; shorten it or use a longer "interval_minutes"`
+    );
+  }
+
+  const response = await axios.post(
+    `${config.nylas.apiUri}/v3/grants/${grantId}/calendars/free-busy`,
+    { start_time, end_time, emails },
+    { headers: nylasHeaders() }
+  );
+
+  const busy: Record<string, TimeSlot[]> = {};
+  const errors: Record<string, string> = {};
+  for (const entry of (response.data.data ?? []) as FreeBusyEntry[]) {
+    if (entry.object === 'error') {
+      errors[entry.email] = entry.error || 'Free/busy not available';
+      continue;
+    }
+    busy[entry.email] = mergeSlots(
+      (entry.time_slots ?? [])
+        .filter((slot) => !slot.status || slot.status === 'busy')
+        .map(({ start_time, end_time }) => ({ start_time, end_time }))
+    );
+  }
+
+  return {
+    free_slots: findFreeSlots(Object.values(busy).flat(), start_time, end_time, duration_minutes * 60, interval_minutes * 60),
+    busy,
+    errors
+  };
+}
@@ -0,0 +1,327 @@
+/**
+ * Nylas Pub/Sub Integration - Configuration
+ *
+ * The one place settings are read from. Values come from, in order of
+ * precedence: the process environment, `.env.<profile>` (APP_PROFILE = dev,
+ * staging or prod) and `.env`. Everything is validated when this module is
+ * first imported; problems are reported together in a single message.
+ *
+ * @license MIT
+ * @copyright Copyright (c) 2025 Aemal Sayer
+ */
+
+import fs from 'fs';
+import { z } from 'zod';
+
+const PROFILES = ['dev', 'staging', 'prod'] as const;
+
+const flag = z
+  .enum(['true', 'false'], { message: 'must be "true" or "false"' })
+  .default('false')
+  .transform((value) => value === 'true');
+
+const list = z
+  .string()
+  .default('')
+  .transform((value) => value.split(',').map((item) => item.trim()).filter(Boolean));
+
+const url = z.string().url();
+
+const LOG_LEVELS = ['fatal', 'error', 'warn', 'info', 'debug', 'trace', 'silent'] as const;
+const REDACTIONS = ['headers', 'signatures', 'emails', 'bodies'] as const;
+
+const DEFAULT_ATTACHMENT_TYPES = [
+  'application/pdf',
+  'text/calendar',
+  'text/plain',
+  'text/csv',
+  'image/png',
+  'image/jpeg',
+  'image/gif',
+  'application/zip',
+  'application/msword',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'application/vnd.ms-excel',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+];
+
+// Every setting, by environment variable name
+const envSchema = z
+  .object({
+    APP_PROFILE: z.enum(PROFILES).default('dev'),
+
+    // Server
+    PORT: z.coerce.number().int().min(1).max(65535).default(3002),
+    HOST: z.string().default('0.0.0.0'),
+    PUBLIC_URL: url.optional(),
+
+    // Logging
+    LOG_LEVEL: z.enum(LOG_LEVELS).default('info'),
+    LOG_REDACT: list
+      .default(REDACTIONS.join(','))
+      .pipe(z.array(z.enum(REDACTIONS, { message: `must list any of: ${REDACTIONS.join(', ')}` }))),
+    LOG_REDACT_HEADERS: list,
+
+    // Nylas API
+    NYLAS_API_KEY: z.string().min(1).optional(),
+    NYLAS_API_URI: url.default('https://api.us.nylas.com'),
+    NYLAS_GRANT_ID: z.string().min(1).optional(),
+
+    // Hosted OAuth
+    NYLAS_CLIENT_ID: z.string().min(1).optional(),
+    NYLAS_CALLBACK_URL: url.optional(),
+    NYLAS_CONNECT_URI: url.optional(),
+    AUTH_SUCCESS_REDIRECT: url.optional(),
+    AUTH_COOKIE_SECRET: z.string().min(32, 'must be at least 32 characters').optional(),
+
+    // Webhooks
+    NYLAS_WEBHOOK_SECRET: z.string().optional(),
+    NYLAS_WEBHOOK_SECRETS: list,
+    NYLAS_WEBHOOK_STRICT: flag,
+    WEBHOOK_URL: url.optional(),
+    NOTIFICATION_EMAIL: z.string().email().optional(),
+
+    // Google Cloud Pub/Sub
+    PUBSUB_PROJECT_ID: z.string().min(1).optional(),
+    PUBSUB_TOPIC: z.string().min(1).optional(),
+    PUBSUB_PUSH_SUBSCRIPTION: z.string().min(1).default('nylas-push-subscription'),
+    PUBSUB_PULL_SUBSCRIPTION: z.string().min(1).default('nylas-subscriber'),
+    PUBSUB_PUSH_ENDPOINT: url.optional(),
+    PUBSUB_ACK_DEADLINE_SECONDS: z.coerce.number().int().min(10).max(600).default(60),
+    PUBSUB_PULL: flag,
+    PUBSUB_EMULATOR_HOST: z.string().optional(),
+    PUBSUB_VERIFY_TOKEN: flag,
+    PUBSUB_AUDIENCE: z.string().optional(),
+    PUBSUB_SERVICE_ACCOUNT_EMAIL: z.string().email().optional(),
+    PUBSUB_ISSUERS: list,
+    PUBSUB_JWKS_URL: url.default('https://www.googleapis.com/oauth2/v3/certs'),
+    PUBSUB_JWKS_FILE: z.string().optional(),
+
+    // Local storage and processing
+    DATABASE_PATH: z.string().min(1).default('nylas.sqlite'),
+    NOTIFICATION_RETENTION_HOURS: z.coerce.number().positive().default(72),
+    SUBSCRIBERS_FILE: z.string().min(1).default('subscribers.json'),
+    FANOUT_MAX_ATTEMPTS: z.coerce.number().int().min(1).default(6),
+    FANOUT_BASE_DELAY_MS: z.coerce.number().int().min(1).default(1000),
+    STREAM_BUFFER_SIZE: z.coerce.number().int().min(1).default(500),
+
+    // Outbox
+    OUTBOX_MAX_ATTEMPTS: z.coerce.number().int().min(1).default(5),
+    OUTBOX_BASE_DELAY_MS: z.coerce.number().int().min(1).default(10000),
+    OUTBOX_POLL_INTERVAL_MS: z.coerce.number().int().min(100).default(1000),
+
+    // Email templates
+    TEMPLATES_DIR: z.string().min(1).default('templates'),
+
+    // Inbox rules
+    RULES_FILE: z.string().min(1).default('rules.json'),
+    RULES_DRY_RUN: flag,
+    RULES_AUTO_REPLY_COOLDOWN_HOURS: z.coerce.number().min(0).default(24),
+
+    // Outgoing attachments
+    ATTACHMENT_MAX_FILE_MB: z.coerce.number().positive().default(10),
+    ATTACHMENT_MAX_TOTAL_MB: z.coerce.number().positive().max(25).default(25),
+    ATTACHMENT_ALLOWED_TYPES: list.default(DEFAULT_ATTACHMENT_TYPES.join(','))
+  })
+  .superRefine((env, ctx) => {
+    if (env.NYLAS_WEBHOOK_STRICT && !env.NYLAS_WEBHOOK_SECRET && env.NYLAS_WEBHOOK_SECRETS.length === 0) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['NYLAS_WEBHOOK_SECRET'],
+        message: 'is required when NYLAS_WEBHOOK_STRICT=true (or set NYLAS_WEBHOOK_SECRETS)'
+      });
+    }
+    if (env.PUBSUB_PULL && !env.PUBSUB_PROJECT_ID) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['PUBSUB_PROJECT_ID'], message: 'is required when PUBSUB_PULL=true' });
+    }
+    if (env.PUBSUB_VERIFY_TOKEN) {
+      for (const key of ['PUBSUB_AUDIENCE', 'PUBSUB_SERVICE_ACCOUNT_EMAIL'] as const) {
+        if (!env[key]) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, path: [key], message: 'is required when PUBSUB_VERIFY_TOKEN=true' });
+        }
+      }
+    }
+  });
+
+// Settings where an empty value means "none" rather than "use the default"
+const EMPTY_MEANS_NONE = new Set(['LOG_REDACT']);
+
+export type Env = z.infer<typeof envSchema>;
+export type SettingName = keyof Env;
+
+/**
+ * Parse a dotenv file (KEY=value lines, # comments, optional quotes)
+ */
+function readEnvFile(file: string): Record<string, string> {
+  if (!fs.existsSync(file)) {
+    return {};
+  }
+
+  const values: Record<string, string> = {};
+  for (const line of fs.readFileSync(file, 'utf-8').split('\n')) {
+    const match = line.match(/^\s*(?:export\s+)?([A-Za-z_][A-Za-z0-9_]*)\s*=\s*(.*?)\s*$/);
+    if (!match) {
+      continue;
+    }
+    let value = match[2]!;
+    if (/^(['"]).*\1$/.test(value)) {
+      value = value.slice(1, -1);
+    } else {
+      value = value.replace(/\s+#.*$/, '');
+    }
+    values[match[1]!] = value;
+  }
+  return values;
+}
+
+function collectSources(): Record<string, string | undefined> {
+  const base = readEnvFile('.env');
+  const profile = process.env.APP_PROFILE || base.APP_PROFILE || 'dev';
+  const profileValues = readEnvFile(`.env.${profile}`);
+
+  // Bun loads .env into process.env by itself; a value identical to the one in
+  // .env came from that file, so the profile file may still override it
+  const environment: Record<string, string | undefined> = {};
+  for (const [key, value] of Object.entries(process.env)) {
+    if (value !== undefined && base[key] !== value) {
+      environment[key] = value;
+    }
+  }
+
+  const merged: Record<string, string | undefined> = { ...base, ...profileValues, ...environment };
+
+  // Treat other empty values as unset so defaults and "required" checks apply
+  for (const key of Object.keys(merged)) {
+    if (merged[key] === '' && !EMPTY_MEANS_NONE.has(key)) {
+      delete merged[key];
+    }
+  }
+  return merged;
+}
+
+function exitWithProblems(title: string, problems: string[]): never {
+  console.error(`❌ ${title}:`);
+  for (const problem of problems) {
+    console.error(`   - ${problem}`);
+  }
+  console.error('Set them in the environment, .env or .env.<profile> (see README).');
+  process.exit(1);
+}
+
+function loadEnv(): Env {
+  const result = envSchema.safeParse(collectSources());
+  if (!result.success) {
+    exitWithProblems(
+      'Invalid configuration',
+      result.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`)
+    );
+  }
+  return result.data;
+}
+
+const env = loadEnv();
+
+const port = env.PORT;
+const publicUrl = env.PUBLIC_URL || `http://localhost:${port}`;
+
+export const config = {
+  profile: env.APP_PROFILE,
+  server: {
+    port,
+    host: env.HOST,
+    publicUrl
+  },
+  logging: {
+    level: env.LOG_LEVEL,
+    redact: {
+      headers: env.LOG_REDACT.includes('headers'),
+      signatures: env.LOG_REDACT.includes('signatures'),
+      emails: env.LOG_REDACT.includes('emails'),
+      bodies: env.LOG_REDACT.includes('bodies')
+    },
+    // Added to the built-in list of credential headers
+    headers: env.LOG_REDACT_HEADERS.map((header) => header.toLowerCase())
+  },
+  nylas: {
+    apiKey: env.NYLAS_API_KEY,
+    apiUri: env.NYLAS_API_URI,
+    grantId: env.NYLAS_GRANT_ID
+  },
+  auth: {
+    clientId: env.NYLAS_CLIENT_ID,
+    callbackUrl: env.NYLAS_CALLBACK_URL || `${publicUrl}/auth/nylas/callback`,
+    // Where /v3/connect/* lives; point it at a local stand-in to test the flow
+    connectUri: env.NYLAS_CONNECT_URI || env.NYLAS_API_URI,
+    successRedirect: env.AUTH_SUCCESS_REDIRECT,
+    // Signs the state cookie; a random key means authorizations in flight fail after a restart
+    cookieSecret: env.AUTH_COOKIE_SECRET
+  },
+  webhook: {
+    // Newest first: NYLAS_WEBHOOK_SECRET, then any additional active secrets
+    secrets: [...new Set([env.NYLAS_WEBHOOK_SECRET, ...env.NYLAS_WEBHOOK_SECRETS].filter((s): s is string => !!s))],
+    strict: env.NYLAS_WEBHOOK_STRICT,
+    url: env.WEBHOOK_URL || `${publicUrl}/webhook/nylas`,
+    notificationEmail: env.NOTIFICATION_EMAIL
+  },
+  pubsub: {
+    projectId: env.PUBSUB_PROJECT_ID,
+    topic: env.PUBSUB_TOPIC,
+    pushSubscription: env.PUBSUB_PUSH_SUBSCRIPTION,
+    pullSubscription: env.PUBSUB_PULL_SUBSCRIPTION,
+    pushEndpoint: env.PUBSUB_PUSH_ENDPOINT,
+    ackDeadlineSeconds: env.PUBSUB_ACK_DEADLINE_SECONDS,
+    pullInServer: env.PUBSUB_PULL,
+    emulatorHost: env.PUBSUB_EMULATOR_HOST,
+    verifyToken: env.PUBSUB_VERIFY_TOKEN,
+    audience: env.PUBSUB_AUDIENCE,
+    serviceAccountEmail: env.PUBSUB_SERVICE_ACCOUNT_EMAIL,
+    issuers: env.PUBSUB_ISSUERS.length > 0 ? env.PUBSUB_ISSUERS : ['https://accounts.google.com', 'accounts.google.com'],
+    jwksUrl: env.PUBSUB_JWKS_URL,
+    jwksFile: env.PUBSUB_JWKS_FILE
+  },
+  database: {
+    path: env.DATABASE_PATH
+  },
+  notifications: {
+    retentionHours: env.NOTIFICATION_RETENTION_HOURS
+  },
+  fanout: {
+    subscribersFile: env.SUBSCRIBERS_FILE,
+    maxAttempts: env.FANOUT_MAX_ATTEMPTS,
+    baseDelayMs: env.FANOUT_BASE_DELAY_MS
+  },
+  stream: {
+    bufferSize: env.STREAM_BUFFER_SIZE
+  },
+  outbox: {
+    maxAttempts: env.OUTBOX_MAX_ATTEMPTS,
+    baseDelayMs: env.OUTBOX_BASE_DELAY_MS,
+    pollIntervalMs: env.OUTBOX_POLL_INTERVAL_MS
+  },
+  templates: {
+    dir: env.TEMPLATES_DIR
+  },
+  rules: {
+    file: env.RULES_FILE,
+    dryRun: env.RULES_DRY_RUN,
+    autoReplyCooldownMs: env.RULES_AUTO_REPLY_COOLDOWN_HOURS * 60 * 60 * 1000
+  },
+  attachments: {
+    maxFileBytes: Math.floor(env.ATTACHMENT_MAX_FILE_MB * 1024 * 1024),
+    maxTotalBytes: Math.floor(env.ATTACHMENT_MAX_TOTAL_MB * 1024 * 1024),
+    allowedTypes: env.ATTACHMENT_ALLOWED_TYPES.map((type) => type.toLowerCase())
+  }
+};
+
+/**
+ * Exit with one clear message if any of the settings an entry point needs are missing
+ */
+export function requireSettings(entryPoint: string, names: SettingName[]): void {
+  const missing = names.filter((name) => env[name] === undefined);
+  if (missing.length > 0) {
+    exitWithProblems(
+      `Missing configuration for ${entryPoint}`,
+      missing.map((name) => `${name}: required`)
+    );
+  }
+}
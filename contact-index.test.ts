@@ -0,0 +1,46 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+import Fastify from 'fastify';
+import { searchContacts, upsertContact } from './contact-index';
+import { contactRoutes } from './contact-routes';
+
+const app = Fastify();
+
+beforeAll(async () => {
+  for (const [index, name] of ['Ada', 'Grace', 'Hedy'].entries()) {
+    upsertContact({ id: `contact-${index}`, given_name: name, emails: [{ email: `${name.toLowerCase()}@example.com` }] }, 'test-grant');
+  }
+  await app.register(contactRoutes);
+});
+
+afterAll(async () => {
+  await app.close();
+});
+
+describe('searchContacts', () => {
+  test('finds contacts by name or email', () => {
+    expect(searchContacts({ q: 'grace' }).map((contact) => contact.id)).toEqual(['contact-1']);
+    expect(searchContacts({ q: 'hedy@' }).map((contact) => contact.id)).toEqual(['contact-2']);
+  });
+
+  test('falls back to the defaults for a non-finite limit or offset', () => {
+    expect(searchContacts({ grant_id: 'test-grant', limit: NaN, offset: Infinity })).toHaveLength(3);
+  });
+
+  test('clamps the limit and offset', () => {
+    expect(searchContacts({ grant_id: 'test-grant', limit: 0 })).toHaveLength(1);
+    expect(searchContacts({ grant_id: 'test-grant', offset: -5 })).toHaveLength(3);
+  });
+});
+
+describe('GET /api/contacts', () => {
+  test('pages through the index', async () => {
+    const response = await app.inject({ method: 'GET', url: '/api/contacts?grant_id=test-grant&limit=2&offset=1' });
+    expect(response.statusCode).toBe(200);
+    expect(response.json().data.map((contact: { id: string }) => contact.id)).toEqual(['contact-1', 'contact-2']);
+  });
+
+  test.each(['limit=abc', 'offset=1e999', 'limit=-1', 'limit=1.5'])('rejects %s with 400', async (query) => {
+    const response = await app.inject({ method: 'GET', url: `/api/contacts?${query}` });
+    expect(response.statusCode).toBe(400);
+  });
+});
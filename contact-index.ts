@@ -0,0 +1,228 @@
+/**
+ * Nylas Pub/Sub Integration - Local Contact Index
+ *
+ * Keeps a searchable local copy of contacts, built from contact.created,
+ * contact.updated and contact.deleted notifications (and from the contacts
+ * routes). Known contact names are filled into recipients of incoming
+ * notifications so logs and downstream events show real names.
+ *
+ * @license MIT
+ * @copyright Copyright (c) 2025 Aemal Sayer
+ */
+
+import { db } from './database';
+import { dispatcher } from './notification-dispatcher';
+import type { ContactObject, TypedNotification } from './notification-schemas';
+import type { EmailRecipient } from './types';
+
+export interface IndexedContact {
+  id: string;
+  grant_id: string | null;
+  name: string | null; // Full name, or the nickname when there is none
+  emails: string[];
+  company_name: string | null;
+  object: ContactObject; // Latest contact payload
+  updated_at: number;
+}
+
+export interface ContactQuery {
+  q?: string; // Matches names, company and email addresses
+  grant_id?: string;
+  limit?: number;
+  offset?: number;
+}
+
+interface ContactRow {
+  id: string;
+  grant_id: string | null;
+  name: string | null;
+  emails_json: string;
+  company_name: string | null;
+  object_json: string;
+  updated_at: number;
+}
+
+db.exec(`
+  CREATE TABLE IF NOT EXISTS contacts (
+    id TEXT PRIMARY KEY,
+    grant_id TEXT,
+    name TEXT,
+    emails_json TEXT NOT NULL DEFAULT '[]',
+    company_name TEXT,
+    object_json TEXT NOT NULL,
+    updated_at INTEGER NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS contact_emails (
+    email TEXT NOT NULL,
+    contact_id TEXT NOT NULL,
+    PRIMARY KEY (email, contact_id)
+  );
+  CREATE INDEX IF NOT EXISTS contact_emails_contact ON contact_emails (contact_id);
+`);
+
+const selectContactRow = db.prepare('SELECT * FROM contacts WHERE id = $id');
+
+const upsertContactRow = db.prepare(`
+  INSERT INTO contacts (id, grant_id, name, emails_json, company_name, object_json, updated_at)
+  VALUES ($id, $grant_id, $name, $emails_json, $company_name, $object_json, $updated_at)
+  ON CONFLICT (id) DO UPDATE SET
+    grant_id = excluded.grant_id,
+    name = excluded.name,
+    emails_json = excluded.emails_json,
+    company_name = excluded.company_name,
+    object_json = excluded.object_json,
+    updated_at = excluded.updated_at
+`);
+
+const deleteContactRow = db.prepare('DELETE FROM contacts WHERE id = $id');
+const deleteContactEmails = db.prepare('DELETE FROM contact_emails WHERE contact_id = $contact_id');
+const insertContactEmail = db.prepare('INSERT OR IGNORE INTO contact_emails (email, contact_id) VALUES ($email, $contact_id)');
+
+// Prefer a named contact from the same grant
+const selectNameByEmail = db.prepare(`
+  SELECT c.name FROM contact_emails e
+  JOIN contacts c ON c.id = e.contact_id
+  WHERE e.email = $email AND c.name IS NOT NULL
+  ORDER BY (c.grant_id IS $grant_id) DESC, c.updated_at DESC
+  LIMIT 1
+`);
+
+function toContact(row: ContactRow): IndexedContact {
+  return {
+    id: row.id,
+    grant_id: row.grant_id,
+    name: row.name,
+    emails: JSON.parse(row.emails_json),
+    company_name: row.company_name,
+    object: JSON.parse(row.object_json),
+    updated_at: row.updated_at
+  };
+}
+
+function displayName(contact: ContactObject): string | null {
+  const fullName = [contact.given_name, contact.surname].filter(Boolean).join(' ').trim();
+  return fullName || contact.nickname || null;
+}
+
+/**
+ * Insert or update a contact. Fields missing from a truncated payload keep
+ * their previously indexed values.
+ */
+export const upsertContact = db.transaction((object: ContactObject, grantId?: string): IndexedContact => {
+  const existingRow = selectContactRow.get({ $id: object.id }) as ContactRow | null;
+  const contact: ContactObject = existingRow ? { ...JSON.parse(existingRow.object_json), ...object } : object;
+  const emails = [...new Set((contact.emails ?? []).map((entry) => entry.email.trim().toLowerCase()).filter(Boolean))];
+
+  upsertContactRow.run({
+    $id: contact.id,
+    $grant_id: contact.grant_id ?? grantId ?? existingRow?.grant_id ?? null,
+    $name: displayName(contact),
+    $emails_json: JSON.stringify(emails),
+    $company_name: contact.company_name ?? null,
+    $object_json: JSON.stringify(contact),
+    $updated_at: Date.now()
+  });
+
+  deleteContactEmails.run({ $contact_id: contact.id });
+  for (const email of emails) {
+    insertContactEmail.run({ $email: email, $contact_id: contact.id });
+  }
+  return getContact(contact.id)!;
+});
+
+export const removeContact = db.transaction((id: string): boolean => {
+  deleteContactEmails.run({ $contact_id: id });
+  return deleteContactRow.run({ $id: id }).changes > 0;
+});
+
+export function getContact(id: string): IndexedContact | null {
+  const row = selectContactRow.get({ $id: id }) as ContactRow | null;
+  return row ? toContact(row) : null;
+}
+
+/**
+ * Search contacts by name, company or email address, alphabetically
+ */
+export function searchContacts(query: ContactQuery = {}): IndexedContact[] {
+  const conditions: string[] = [];
+  const params: Record<string, string | number> = {};
+
+  if (query.grant_id) {
+    conditions.push('grant_id = $grant_id');
+    params.$grant_id = query.grant_id;
+  }
+  if (query.q) {
+    conditions.push(`(
+      name LIKE $q ESCAPE '\\' OR company_name LIKE $q ESCAPE '\\'
+      OR id IN (SELECT contact_id FROM contact_emails WHERE email LIKE $q ESCAPE '\\')
+    )`);
+    params.$q = `%${query.q.toLowerCase().replace(/[\\%_]/g, (char) => `\\${char}`)}%`;
+  }
+  // NaN or Infinity would reach SQLite as a non-integer, so they fall back to the defaults
+  const limit = Number.isFinite(query.limit) ? Math.trunc(query.limit!) : 50;
+  const offset = Number.isFinite(query.offset) ? Math.trunc(query.offset!) : 0;
+  params.$limit = Math.min(Math.max(limit, 1), 500);
+  params.$offset = Math.max(offset, 0);
+
+  const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+  const rows = db
+    .prepare(`SELECT * FROM contacts ${where} ORDER BY name COLLATE NOCASE LIMIT $limit OFFSET $offset`)
+    .all(params) as ContactRow[];
+  return rows.map(toContact);
+}
+
+/**
+ * Fill in missing recipient names from known contacts (in place)
+ */
+export function enrichRecipients(recipients: EmailRecipient[] | undefined, grantId?: string): void {
+  for (const recipient of recipients ?? []) {
+    if (recipient.name || !recipient.email) {
+      continue;
+    }
+    const match = selectNameByEmail.get({ $email: recipient.email.toLowerCase(), $grant_id: grantId ?? null }) as
+      | { name: string }
+      | null;
+    if (match) {
+      recipient.name = match.name;
+    }
+  }
+}
+
+/**
+ * Fill in contact names on the people in a notification before it is dispatched
+ */
+export function enrichNotification(notification: TypedNotification): void {
+  const grantId = notification.data.grant_id;
+  switch (notification.kind) {
+    case 'message': {
+      const message = notification.data.object;
+      for (const recipients of [message.from, message.to, message.cc, message.bcc, message.reply_to]) {
+        enrichRecipients(recipients, grantId);
+      }
+      break;
+    }
+    case 'event': {
+      const event = notification.data.object;
+      enrichRecipients(event.participants, grantId);
+      enrichRecipients(event.organizer ? [event.organizer] : undefined, grantId);
+      break;
+    }
+    case 'thread':
+      enrichRecipients(notification.data.object.participants, grantId);
+      break;
+  }
+}
+
+// Keep the index current from contact notifications
+dispatcher.on('contact.created', (notification) => {
+  upsertContact(notification.data.object, notification.data.grant_id);
+}, 'contact-index');
+
+dispatcher.on('contact.updated', (notification) => {
+  upsertContact(notification.data.object, notification.data.grant_id);
+}, 'contact-index');
+
+dispatcher.on('contact.deleted', (notification) => {
+  removeContact(notification.data.object.id);
+}, 'contact-index');
@@ -0,0 +1,142 @@
+/**
+ * Nylas Pub/Sub Integration - Contact Routes
+ *
+ * Search over the local contact index (`GET /api/contacts?q=`), contact CRUD
+ * through Nylas, and a full sync of a grant's contacts into the index. The
+ * grant is taken from `grant_id` (query string or body) or the X-Grant-Id header.
+ *
+ * @license MIT
+ * @copyright Copyright (c) 2025 Aemal Sayer
+ */
+
+import type { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
+import axios from 'axios';
+import { getContact as getIndexedContact, searchContacts } from './contact-index';
+import { createContact, deleteContact, getContact, syncContacts, updateContact } from './contacts';
+import { GrantUnavailableError, resolveGrant } from './grant-registry';
+
+interface ContactQuerystring {
+  q?: string;
+  grant_id?: string;
+  limit?: string;
+  offset?: string;
+  refresh?: string;
+}
+
+// Contact fields are passed to Nylas as they are (given_name, emails, ...)
+type ContactBody = Record<string, unknown> & { grant_id?: string };
+
+type ContactRequest = FastifyRequest<{ Params: { id?: string }; Querystring: ContactQuerystring; Body: ContactBody | undefined }>;
+
+/**
+ * A non-negative integer from a query parameter
+ */
+function toInteger(value: string | undefined): number | undefined | null {
+  if (value === undefined || value === '') {
+    return undefined;
+  }
+  return /^\d+$/.test(value) ? Number(value) : null;
+}
+
+function contactGrant(request: ContactRequest): string {
+  return resolveGrant(request.body?.grant_id || request.query.grant_id || (request.headers['x-grant-id'] as string | undefined));
+}
+
+function contactFields(body: ContactBody | undefined): Record<string, unknown> {
+  const { grant_id, ...contact } = body ?? {};
+  return contact;
+}
+
+function replyWithContactError(reply: FastifyReply, error: unknown) {
+  if (error instanceof GrantUnavailableError) {
+    return reply.code(error.statusCode).send({ error: 'Grant unavailable', grant_id: error.grantId, message: error.message });
+  }
+  if (axios.isAxiosError(error) && error.response) {
+    reply.log.error({ err: error }, `❌ Nylas contacts request failed: HTTP ${error.response.status}`);
+    return reply.code(error.response.status).send({
+      error: 'Nylas API error',
+      status: error.response.status,
+      message: error.response.data?.error?.message || error.response.data?.message || error.message
+    });
+  }
+  reply.log.error({ err: error }, '❌ Contacts request failed');
+  return reply.code(500).send({
+    error: 'Contacts request failed',
+    message: error instanceof Error ? error.message : 'Unknown error'
+  });
+}
+
+export async function contactRoutes(fastify: FastifyInstance) {
+  // Search the local index by name, company or email, e.g. /api/contacts?q=jane
+  fastify.get('/api/contacts', async (request: ContactRequest, reply) => {
+    const limit = toInteger(request.query.limit);
+    const offset = toInteger(request.query.offset);
+    if (limit === null || offset === null) {
+      return reply.code(400).send({ error: 'Invalid request', message: '"limit" and "offset" must be non-negative integers' });
+    }
+    const contacts = searchContacts({
+      q: request.query.q?.trim() || undefined,
+      grant_id: request.query.grant_id,
+      limit,
+      offset
+    });
+    return { data: contacts, count: contacts.length };
+  });
+
+  // From the index; ?refresh=true reads the contact from Nylas (and re-indexes it)
+  fastify.get('/api/contacts/:id', async (request: ContactRequest, reply) => {
+    try {
+      if (request.query.refresh === 'true') {
+        await getContact(contactGrant(request), request.params.id!);
+      }
+      const contact = getIndexedContact(request.params.id!);
+      if (!contact) {
+        return reply.code(404).send({ error: 'Contact not found', id: request.params.id });
+      }
+      return contact;
+    } catch (error) {
+      return replyWithContactError(reply, error);
+    }
+  });
+
+  fastify.post('/api/contacts', async (request: ContactRequest, reply) => {
+    try {
+      const contact = await createContact(contactGrant(request), contactFields(request.body));
+      request.log.info(`👥 Contact created: ${contact.id}`);
+      return reply.code(201).send(contact);
+    } catch (error) {
+      return replyWithContactError(reply, error);
+    }
+  });
+
+  fastify.put('/api/contacts/:id', async (request: ContactRequest, reply) => {
+    try {
+      const contact = await updateContact(contactGrant(request), request.params.id!, contactFields(request.body));
+      request.log.info(`👥 Contact updated: ${request.params.id}`);
+      return contact;
+    } catch (error) {
+      return replyWithContactError(reply, error);
+    }
+  });
+
+  fastify.delete('/api/contacts/:id', async (request: ContactRequest, reply) => {
+    try {
+      await deleteContact(contactGrant(request), request.params.id!);
+      request.log.info(`👥 Contact deleted: ${request.params.id}`);
+      return reply.code(204).send();
+    } catch (error) {
+      return replyWithContactError(reply, error);
+    }
+  });
+
+  // Import every contact of the grant into the index
+  fastify.post('/api/contacts/sync', async (request: ContactRequest, reply) => {
+    try {
+      const grantId = contactGrant(request);
+      const synced = await syncContacts(grantId);
+      return { success: true, grant_id: grantId, synced };
+    } catch (error) {
+      return replyWithContactError(reply, error);
+    }
+  });
+}
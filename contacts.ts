@@ -0,0 +1,76 @@
+/**
+ * Nylas Pub/Sub Integration - Contacts
+ *
+ * Contacts through the Nylas API (create, read, update, delete) and a full
+ * sync of a grant's contacts into the local contact index. Every change made
+ * here is written to the index straight away, so searches do not have to wait
+ * for the matching notification.
+ *
+ * @license MIT
+ * @copyright Copyright (c) 2025 Aemal Sayer
+ */
+
+import axios from 'axios';
+import { config } from './config';
+import { removeContact, upsertContact } from './contact-index';
+import { getLogger } from './logger';
+import type { ContactObject } from './notification-schemas';
+
+// Page size used when syncing (the Nylas maximum for contacts)
+const SYNC_PAGE_SIZE = 200;
+
+function contactsUrl(grantId: string, contactId?: string): string {
+  const base = `${config.nylas.apiUri}/v3/grants/${grantId}/contacts`;
+  return contactId ? `${base}/${encodeURIComponent(contactId)}` : base;
+}
+
+function nylasHeaders() {
+  return {
+    'Authorization': `Bearer ${config.nylas.apiKey}`,
+    'Content-Type': 'application/json',
+    'Accept': 'application/json'
+  };
+}
+
+export async function getContact(grantId: string, contactId: string): Promise<ContactObject> {
+  const response = await axios.get(contactsUrl(grantId, contactId), { headers: nylasHeaders() });
+  return upsertContact(response.data.data, grantId).object;
+}
+
+export async function createContact(grantId: string, contact: Record<string, unknown>): Promise<ContactObject> {
+  const response = await axios.post(contactsUrl(grantId), contact, { headers: nylasHeaders() });
+  return upsertContact(response.data.data, grantId).object;
+}
+
+export async function updateContact(grantId: string, contactId: string, changes: Record<string, unknown>): Promise<ContactObject> {
+  const response = await axios.put(contactsUrl(grantId, contactId), changes, { headers: nylasHeaders() });
+  return upsertContact(response.data.data, grantId).object;
+}
+
+export async function deleteContact(grantId: string, contactId: string): Promise<void> {
+  await axios.delete(contactsUrl(grantId, contactId), { headers: nylasHeaders() });
+  removeContact(contactId);
+}
+
+/**
+ * Page through every contact of a grant and index it; returns how many were indexed
+ */
+export async function syncContacts(grantId: string): Promise<number> {
+  let pageToken: string | undefined;
+  let synced = 0;
+
+  do {
+    const response = await axios.get(contactsUrl(grantId), {
+      headers: nylasHeaders(),
+      params: { limit: SYNC_PAGE_SIZE, page_token: pageToken }
+    });
+    for (const contact of (response.data.data ?? []) as ContactObject[]) {
+      upsertContact(contact, grantId);
+      synced++;
+    }
+    pageToken = response.data.next_cursor || undefined;
+  } while (pageToken);
+
+  getLogger().info(`👥 Synced ${synced} contacts for grant ${grantId}`);
+  return synced;
+}
@@ -0,0 +1,18 @@
+/**
+ * Nylas Pub/Sub Integration - Local Database
+ * 
+ * Opens the embedded SQLite database used for server-side state such as
+ * notification deduplication and the mailbox mirror.
+ * 
+ * @license MIT
+ * @copyright Copyright (c) 2025 Aemal Sayer
+ */
+
+import { Database } from 'bun:sqlite';
+import { config } from './config';
+
+// DATABASE_PATH can be ":memory:" for a throwaway database
+export const db = new Database(config.database.path, { create: true });
+
+// WAL lets the HTTP routes read while a notification is being written
+db.exec('PRAGMA journal_mode = WAL;');
@@ -0,0 +1,103 @@
+/**
+ * Nylas Pub/Sub Integration - Dead Letter Routes
+ *
+ * Admin routes for notifications that could not be processed: list and
+ * inspect them, replay them once the cause is fixed, or discard them.
+ *
+ * @license MIT
+ * @copyright Copyright (c) 2025 Aemal Sayer
+ */
+
+import type { FastifyInstance } from 'fastify';
+import { replayDeadLetter, ReplayError } from './notification-processor';
+import { deleteDeadLetter, getDeadLetter, listDeadLetters, type DeadLetterStatus } from './notification-store';
+
+interface DeadLetterQuerystring {
+  status?: DeadLetterStatus;
+  limit?: string;
+  offset?: string;
+}
+
+/**
+ * A non-negative integer from a query or path parameter
+ */
+function toInteger(value: string | undefined): number | undefined | null {
+  if (value === undefined || value === '') {
+    return undefined;
+  }
+  return /^\d+$/.test(value) ? Number(value) : null;
+}
+
+const INVALID_ID = { error: 'Invalid request', message: '"id" must be a dead letter ID (an integer)' };
+
+export async function deadLetterRoutes(fastify: FastifyInstance) {
+  // e.g. /api/dead-letters?status=pending
+  fastify.get<{ Querystring: DeadLetterQuerystring }>('/api/dead-letters', async (request, reply) => {
+    const { status } = request.query;
+    if (status && status !== 'pending' && status !== 'resolved') {
+      return reply.code(400).send({ error: 'Invalid request', message: '"status" must be "pending" or "resolved"' });
+    }
+    const limit = toInteger(request.query.limit);
+    const offset = toInteger(request.query.offset);
+    if (limit === null || offset === null) {
+      return reply.code(400).send({ error: 'Invalid request', message: '"limit" and "offset" must be non-negative integers' });
+    }
+    const deadLetters = listDeadLetters({ status, limit, offset });
+    return { data: deadLetters, count: deadLetters.length };
+  });
+
+  fastify.get<{ Params: { id: string } }>('/api/dead-letters/:id', async (request, reply) => {
+    const id = toInteger(request.params.id);
+    if (id == null) {
+      return reply.code(400).send(INVALID_ID);
+    }
+    const deadLetter = getDeadLetter(id);
+    if (!deadLetter) {
+      return reply.code(404).send({ error: 'Dead letter not found' });
+    }
+    return deadLetter;
+  });
+
+  // Process it again; { "payload": { ... } } replaces the stored notification
+  fastify.post<{ Params: { id: string }; Body: { payload?: unknown } | undefined }>(
+    '/api/dead-letters/:id/replay',
+    async (request, reply) => {
+      const id = toInteger(request.params.id);
+      if (id == null) {
+        return reply.code(400).send(INVALID_ID);
+      }
+      try {
+        const result = await replayDeadLetter(id, request.body?.payload);
+        if (!result) {
+          return reply.code(404).send({ error: 'Dead letter not found' });
+        }
+        if (result.quarantined) {
+          return reply.code(422).send({ error: 'Notification failed validation', message: result.error });
+        }
+        return { success: true, ...result, dead_letter: getDeadLetter(id) };
+      } catch (error) {
+        if (error instanceof ReplayError) {
+          return reply.code(error.statusCode).send({ error: 'Cannot replay', message: error.message });
+        }
+        return reply.code(500).send({
+          error: 'Replay failed',
+          message: error instanceof Error ? error.message : 'Unknown error',
+          dead_letter: getDeadLetter(id)
+        });
+      }
+    }
+  );
+
+  // Discard after inspection
+  fastify.delete<{ Params: { id: string } }>('/api/dead-letters/:id', async (request, reply) => {
+    const id = toInteger(request.params.id);
+    if (id == null) {
+      return reply.code(400).send(INVALID_ID);
+    }
+    if (!deleteDeadLetter(id)) {
+      return reply.code(404).send({ error: 'Dead letter not found' });
+    }
+    request.log.info(`🗑️ Dead letter ${request.params.id} discarded`);
+    return reply.code(204).send();
+  });
+}
@@ -0,0 +1,89 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, test } from 'bun:test';
+import { fanOut, getSubscriberStatus, signPayload } from './downstream-fanout';
+import { parseTriggerType } from './notification-dispatcher';
+import { validateNotification } from './notification-schemas';
+import { buildNotification } from './simulate';
+
+// Stand-in for the subscriber in test-subscribers.json, answering with the queued statuses
+let server: ReturnType<typeof Bun.serve>;
+let statuses: number[] = [];
+let requests: Request[] = [];
+let bodies: string[] = [];
+
+beforeAll(() => {
+  server = Bun.serve({
+    port: 3199,
+    async fetch(request) {
+      requests.push(request);
+      bodies.push(await request.text());
+      return new Response(null, { status: statuses.shift() ?? 204 });
+    }
+  });
+});
+
+afterAll(() => {
+  server.stop(true);
+});
+
+beforeEach(() => {
+  statuses = [];
+  requests = [];
+  bodies = [];
+});
+
+function send(trigger: string, grantId = 'fanout-grant'): number {
+  const notification = validateNotification(buildNotification(trigger, { grantId }));
+  return fanOut(notification, { transport: 'webhook', ...parseTriggerType(notification.type) });
+}
+
+function stats() {
+  return getSubscriberStatus().find((subscriber) => subscriber.name === 'test-crm')!;
+}
+
+// Deliveries run in the background, so wait for the counters to settle
+async function settled(count: (entry: ReturnType<typeof stats>) => number, expected: number): Promise<void> {
+  for (let waited = 0; count(stats()) < expected && waited < 2000; waited += 10) {
+    await Bun.sleep(10);
+  }
+}
+
+describe('fanOut', () => {
+  test('forwards only matching triggers and grants', () => {
+    expect(send('event.created')).toBe(0);
+    expect(send('message.created', 'test-grant')).toBe(0);
+  });
+
+  test('signs the event and retries server errors until it is delivered', async () => {
+    const before = stats();
+    statuses = [503, 500];
+    expect(send('message.created')).toBe(1);
+    await settled((entry) => entry.delivered, before.delivered + 1);
+
+    expect(requests.map((request) => request.headers.get('x-delivery-attempt'))).toEqual(['1', '2', '3']);
+    const request = requests[2]!;
+    const signature = signPayload('test-downstream-secret', request.headers.get('x-signature-timestamp')!, bodies[2]!);
+    expect(request.headers.get('x-signature-256')).toBe(`sha256=${signature}`);
+    expect(JSON.parse(bodies[2]!)).toMatchObject({ type: 'message.created', grant_id: 'fanout-grant', transport: 'webhook' });
+    expect(stats()).toMatchObject({ delivered: before.delivered + 1, retries: before.retries + 2, failed: before.failed });
+  });
+
+  test('gives up after the last attempt', async () => {
+    const before = stats();
+    statuses = [500, 500, 500];
+    send('message.updated');
+    await settled((entry) => entry.failed, before.failed + 1);
+
+    expect(requests).toHaveLength(3);
+    expect(stats()).toMatchObject({ failed: before.failed + 1, retries: before.retries + 2, last_error: 'HTTP 500' });
+  });
+
+  test('does not retry client errors other than 408 and 429', async () => {
+    const before = stats();
+    statuses = [429, 400];
+    send('message.created');
+    await settled((entry) => entry.failed, before.failed + 1);
+
+    expect(requests).toHaveLength(2);
+    expect(stats()).toMatchObject({ failed: before.failed + 1, retries: before.retries + 1, last_error: 'HTTP 400' });
+  });
+});
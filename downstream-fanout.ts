@@ -0,0 +1,204 @@
+/**
+ * Nylas Pub/Sub Integration - Downstream Fan-out
+ *
+ * Forwards a normalized copy of every processed notification to the
+ * configured downstream HTTP subscribers. Each subscriber has its own trigger
+ * and grant filters and its own HMAC secret; failed deliveries are retried
+ * with exponential backoff.
+ *
+ * Subscribers are read from the JSON file named by SUBSCRIBERS_FILE
+ * (default: subscribers.json), e.g.
+ *
+ *   [{ "name": "crm", "url": "https://crm.internal/hooks/nylas",
+ *      "secret": "...", "triggers": ["message.*"], "grants": ["<grant id>"] }]
+ *
+ * @license MIT
+ * @copyright Copyright (c) 2025 Aemal Sayer
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import axios from 'axios';
+import { config } from './config';
+import { getLogger } from './logger';
+import { dispatcher, matchesTrigger, type NotificationContext } from './notification-dispatcher';
+import type { NotificationKind, TypedNotification } from './notification-schemas';
+import type { NotificationTransport } from './types';
+
+const SUBSCRIBERS_FILE = config.fanout.subscribersFile;
+const MAX_ATTEMPTS = config.fanout.maxAttempts;
+const BASE_DELAY_MS = config.fanout.baseDelayMs;
+const MAX_DELAY_MS = 5 * 60 * 1000;
+const REQUEST_TIMEOUT_MS = 10000;
+
+// A configured downstream endpoint
+export interface DownstreamSubscriber {
+  name: string;
+  url: string;
+  secret: string;
+  triggers?: string[]; // Trigger patterns such as "message.*" (default: all)
+  grants?: string[]; // Grant IDs to forward (default: all)
+}
+
+// The event body sent to subscribers
+export interface NormalizedEvent {
+  id: string;
+  type: string; // Base trigger type, e.g. "message.created"
+  trigger: string; // Trigger type as sent by Nylas, e.g. "message.created.transformed"
+  kind: NotificationKind;
+  grant_id: string | null;
+  application_id: string;
+  transport: NotificationTransport;
+  occurred_at: string | null;
+  received_at: string;
+  object: TypedNotification['data']['object'];
+}
+
+interface SubscriberStats {
+  delivered: number;
+  failed: number;
+  retries: number;
+  last_error?: string;
+}
+
+const stats = new Map<string, SubscriberStats>();
+
+function loadSubscribers(): DownstreamSubscriber[] {
+  if (!fs.existsSync(SUBSCRIBERS_FILE)) {
+    return [];
+  }
+
+  const parsed = JSON.parse(fs.readFileSync(SUBSCRIBERS_FILE, 'utf-8'));
+  if (!Array.isArray(parsed)) {
+    throw new Error(`${SUBSCRIBERS_FILE} must contain an array of subscribers`);
+  }
+
+  for (const subscriber of parsed) {
+    if (!subscriber.name || !subscriber.url || !subscriber.secret) {
+      throw new Error(`Each subscriber in ${SUBSCRIBERS_FILE} needs "name", "url" and "secret"`);
+    }
+  }
+  return parsed;
+}
+
+const subscribers = loadSubscribers();
+
+export function normalizeNotification(
+  notification: TypedNotification,
+  context: NotificationContext
+): NormalizedEvent {
+  return {
+    id: notification.id,
+    type: context.baseType,
+    trigger: notification.type,
+    kind: notification.kind,
+    grant_id: notification.data.grant_id ?? null,
+    application_id: notification.data.application_id,
+    transport: context.transport,
+    occurred_at: notification.time ? new Date(notification.time * 1000).toISOString() : null,
+    received_at: new Date().toISOString(),
+    object: notification.data.object
+  };
+}
+
+/**
+ * Sign `<timestamp>.<body>` with the subscriber's secret
+ */
+export function signPayload(secret: string, timestamp: string, body: string): string {
+  return crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+function wantsEvent(subscriber: DownstreamSubscriber, event: NormalizedEvent): boolean {
+  if (subscriber.triggers && !subscriber.triggers.some((pattern) => matchesTrigger(pattern, event.type))) {
+    return false;
+  }
+  if (subscriber.grants && (!event.grant_id || !subscriber.grants.includes(event.grant_id))) {
+    return false;
+  }
+  return true;
+}
+
+function getStats(name: string): SubscriberStats {
+  let entry = stats.get(name);
+  if (!entry) {
+    entry = { delivered: 0, failed: 0, retries: 0 };
+    stats.set(name, entry);
+  }
+  return entry;
+}
+
+async function deliver(subscriber: DownstreamSubscriber, event: NormalizedEvent, attempt: number): Promise<void> {
+  const body = JSON.stringify(event);
+  const timestamp = Math.floor(Date.now() / 1000).toString();
+  const entry = getStats(subscriber.name);
+
+  try {
+    await axios.post(subscriber.url, body, {
+      timeout: REQUEST_TIMEOUT_MS,
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Event-Id': event.id,
+        'X-Event-Type': event.type,
+        'X-Delivery-Attempt': String(attempt),
+        'X-Signature-Timestamp': timestamp,
+        'X-Signature-256': `sha256=${signPayload(subscriber.secret, timestamp, body)}`
+      }
+    });
+    entry.delivered++;
+    getLogger().info(`📤 Forwarded ${event.type} ${event.id} to ${subscriber.name} (attempt ${attempt})`);
+  } catch (error) {
+    const message = axios.isAxiosError(error) && error.response
+      ? `HTTP ${error.response.status}`
+      : error instanceof Error ? error.message : String(error);
+    entry.last_error = message;
+
+    // Client errors other than 408/429 will not succeed on retry
+    const status = axios.isAxiosError(error) ? error.response?.status : undefined;
+    const retryable = !status || status >= 500 || status === 408 || status === 429;
+
+    if (!retryable || attempt >= MAX_ATTEMPTS) {
+      entry.failed++;
+      getLogger().error(`❌ Giving up forwarding ${event.id} to ${subscriber.name} after ${attempt} attempt(s): ${message}`);
+      return;
+    }
+
+    const delay = Math.min(BASE_DELAY_MS * 2 ** (attempt - 1), MAX_DELAY_MS);
+    entry.retries++;
+    getLogger().warn(`⚠️ Forwarding ${event.id} to ${subscriber.name} failed (${message}), retrying in ${delay}ms`);
+    setTimeout(() => deliver(subscriber, event, attempt + 1), delay);
+  }
+}
+
+/**
+ * Queue a notification for every matching subscriber. Deliveries run in the
+ * background so the webhook and Pub/Sub routes can acknowledge immediately.
+ */
+export function fanOut(notification: TypedNotification, context: NotificationContext): number {
+  const event = normalizeNotification(notification, context);
+  const targets = subscribers.filter((subscriber) => wantsEvent(subscriber, event));
+
+  for (const subscriber of targets) {
+    void deliver(subscriber, event, 1);
+  }
+  return targets.length;
+}
+
+/**
+ * Configured subscribers (without secrets) and their delivery counters
+ */
+export function getSubscriberStatus() {
+  return subscribers.map(({ name, url, triggers, grants }) => ({
+    name,
+    url,
+    triggers: triggers ?? ['*'],
+    grants: grants ?? null,
+    ...getStats(name)
+  }));
+}
+
+if (subscribers.length > 0) {
+  getLogger().info(`Forwarding notifications to ${subscribers.length} downstream subscriber(s)`);
+  dispatcher.on('*', (notification, context) => {
+    fanOut(notification, context);
+  }, 'fanout');
+}
@@ -0,0 +1,95 @@
+/**
+ * Nylas Pub/Sub Integration - Draft Routes
+ * 
+ * Review workflow for drafts: list, read, edit, send and discard. The grant
+ * is taken from `grant_id` (query string or body) or the X-Grant-Id header.
+ * 
+ * @license MIT
+ * @copyright Copyright (c) 2025 Aemal Sayer
+ */
+
+import type { FastifyInstance, FastifyRequest } from 'fastify';
+import { config } from './config';
+import { decodeAttachments } from './email-attachments';
+import { deleteDraft, getDraft, listDrafts, sendDraft, updateDraft, type DraftUpdate } from './drafts';
+import { resolveGrant } from './grant-registry';
+import { replyWithSendError } from './send-routes';
+import type { AttachmentInput } from './types';
+
+interface DraftQuerystring {
+  grant_id?: string;
+  thread_id?: string;
+  limit?: string;
+  page_token?: string;
+}
+
+type DraftBody = DraftUpdate & { grant_id?: string; attachments?: AttachmentInput[] };
+
+function draftGrant(request: FastifyRequest<{ Querystring: DraftQuerystring }>, body?: { grant_id?: string }): string {
+  return resolveGrant(body?.grant_id || request.query.grant_id || (request.headers['x-grant-id'] as string | undefined));
+}
+
+export async function draftRoutes(fastify: FastifyInstance) {
+  // e.g. /api/drafts?limit=20, then ?page_token=<next_cursor>
+  fastify.get<{ Querystring: DraftQuerystring }>('/api/drafts', async (request, reply) => {
+    try {
+      const { data, next_cursor } = await listDrafts(draftGrant(request), {
+        limit: request.query.limit ? Number(request.query.limit) : undefined,
+        page_token: request.query.page_token,
+        thread_id: request.query.thread_id
+      });
+      return { data, count: data.length, next_cursor };
+    } catch (error) {
+      return replyWithSendError(reply, error);
+    }
+  });
+
+  fastify.get<{ Params: { id: string }; Querystring: DraftQuerystring }>('/api/drafts/:id', async (request, reply) => {
+    try {
+      return await getDraft(draftGrant(request), request.params.id);
+    } catch (error) {
+      return replyWithSendError(reply, error);
+    }
+  });
+
+  // Edit a draft with the same fields as /api/send-email; only the fields given change
+  fastify.put<{ Params: { id: string }; Querystring: DraftQuerystring; Body: DraftBody | undefined }>(
+    '/api/drafts/:id',
+    { bodyLimit: Math.ceil(config.attachments.maxTotalBytes * 4 / 3) + 1048576 },
+    async (request, reply) => {
+      try {
+        const { grant_id, attachments, ...update } = request.body ?? {};
+        const grantId = draftGrant(request, { grant_id });
+        const draft = await updateDraft(grantId, request.params.id, update, decodeAttachments(attachments));
+        request.log.info(`📝 Draft ${request.params.id} updated`);
+        return draft;
+      } catch (error) {
+        return replyWithSendError(reply, error);
+      }
+    }
+  );
+
+  fastify.delete<{ Params: { id: string }; Querystring: DraftQuerystring }>('/api/drafts/:id', async (request, reply) => {
+    try {
+      await deleteDraft(draftGrant(request), request.params.id);
+      request.log.info(`🗑️ Draft ${request.params.id} deleted`);
+      return reply.code(204).send();
+    } catch (error) {
+      return replyWithSendError(reply, error);
+    }
+  });
+
+  // Send the draft as it is (e.g. after a person approved it)
+  fastify.post<{ Params: { id: string }; Querystring: DraftQuerystring; Body: { grant_id?: string } | undefined }>(
+    '/api/drafts/:id/send',
+    async (request, reply) => {
+      try {
+        const message = await sendDraft(draftGrant(request, request.body), request.params.id);
+        request.log.info(`✅ Draft ${request.params.id} sent, message ID: ${message?.id}`);
+        return message;
+      } catch (error) {
+        return replyWithSendError(reply, error);
+      }
+    }
+  );
+}
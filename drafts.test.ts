@@ -0,0 +1,78 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, test } from 'bun:test';
+import Fastify from 'fastify';
+import { draftRoutes } from './draft-routes';
+import { recordGrant } from './grant-registry';
+import { getMessageTracking } from './tracking-analytics';
+
+// Stand-in for the Nylas drafts API, recording each request
+let server: ReturnType<typeof Bun.serve>;
+let requests: { method: string; path: string; body: unknown }[] = [];
+const app = Fastify();
+
+beforeAll(async () => {
+  server = Bun.serve({
+    port: 3199,
+    async fetch(request) {
+      const { pathname } = new URL(request.url);
+      const text = await request.text();
+      requests.push({ method: request.method, path: pathname, body: text ? JSON.parse(text) : undefined });
+      const id = pathname.split('/').pop();
+      if (id === 'draft-missing') {
+        return Response.json({ message: 'Draft not found' }, { status: 404 });
+      }
+      if (request.method === 'POST') {
+        return Response.json({ data: { id: 'message-from-draft', subject: 'Proposal' } });
+      }
+      return Response.json({ data: { id, subject: 'Proposal', tracking_options: { opens: true, label: 'proposals' } } });
+    }
+  });
+  recordGrant({ grant_id: 'drafts-expired-grant' }, 'expired');
+  await app.register(draftRoutes);
+});
+
+afterAll(async () => {
+  await app.close();
+  server.stop(true);
+});
+
+beforeEach(() => {
+  requests = [];
+});
+
+describe('draft review', () => {
+  test('updates only the fields given', async () => {
+    const response = await app.inject({
+      method: 'PUT',
+      url: '/api/drafts/draft-1',
+      payload: { grant_id: 'test-grant', to: [{ email: 'ada@example.com' }], cc: [], subject: 'Proposal v2' }
+    });
+    expect(response.statusCode).toBe(200);
+    expect(requests).toEqual([{
+      method: 'PUT',
+      path: '/v3/grants/test-grant/drafts/draft-1',
+      // An empty list clears the recipients; names default to empty
+      body: { to: [{ email: 'ada@example.com', name: '' }], cc: [], subject: 'Proposal v2' }
+    }]);
+  });
+
+  test('sends an approved draft and records its tracking options', async () => {
+    const response = await app.inject({ method: 'POST', url: '/api/drafts/draft-2/send', headers: { 'x-grant-id': 'test-grant' } });
+    expect(response.statusCode).toBe(200);
+    expect(response.json().id).toBe('message-from-draft');
+    // The draft is read before sending consumes it
+    expect(requests.map((request) => request.method)).toEqual(['GET', 'POST']);
+    expect(getMessageTracking('message-from-draft')).toMatchObject({ label: 'proposals', tracking: { opens: true } });
+  });
+
+  test('refuses drafts of an expired grant without calling Nylas', async () => {
+    const response = await app.inject({ method: 'POST', url: '/api/drafts/draft-3/send?grant_id=drafts-expired-grant' });
+    expect(response.statusCode).toBe(409);
+    expect(requests).toEqual([]);
+  });
+
+  test('passes on a draft that Nylas does not know', async () => {
+    const response = await app.inject({ method: 'GET', url: '/api/drafts/draft-missing?grant_id=test-grant' });
+    expect(response.statusCode).toBe(404);
+    expect(response.json().message).toBe('Draft not found');
+  });
+});
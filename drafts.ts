@@ -0,0 +1,110 @@
+/**
+ * Nylas Pub/Sub Integration - Drafts
+ *
+ * Thin wrappers around the Nylas drafts API, so drafts created with
+ * `send_draft: false` can be listed, reviewed, edited, sent or discarded.
+ * Updates use the same recipient and tracking fields as SendEmailRequest.
+ *
+ * @license MIT
+ * @copyright Copyright (c) 2025 Aemal Sayer
+ */
+
+import axios from 'axios';
+import { config } from './config';
+import { buildSendRequest, type Attachment } from './email-attachments';
+import { getOutboxRequest, markDraftSent } from './outbox';
+import { recordTrackedMessage } from './tracking-analytics';
+import type { EmailRecipient, SendEmailRequest } from './types';
+
+// Fields of a draft that can be changed
+export type DraftUpdate = Partial<Pick<SendEmailRequest, 'to' | 'cc' | 'bcc' | 'reply_to' | 'subject' | 'body' | 'tracking_options'>>;
+
+export interface DraftListOptions {
+  limit?: number;
+  page_token?: string;
+  thread_id?: string;
+}
+
+const UPDATABLE_FIELDS = ['to', 'cc', 'bcc', 'reply_to', 'subject', 'body', 'tracking_options'] as const;
+const RECIPIENT_FIELDS = new Set(['to', 'cc', 'bcc', 'reply_to']);
+
+function draftsUrl(grantId: string, draftId?: string): string {
+  const base = `${config.nylas.apiUri}/v3/grants/${grantId}/drafts`;
+  return draftId ? `${base}/${encodeURIComponent(draftId)}` : base;
+}
+
+function nylasHeaders() {
+  return {
+    'Authorization': `Bearer ${config.nylas.apiKey}`,
+    'Accept': 'application/json'
+  };
+}
+
+export async function listDrafts(grantId: string, options: DraftListOptions = {}) {
+  const response = await axios.get(draftsUrl(grantId), { headers: nylasHeaders(), params: options });
+  return {
+    data: response.data.data ?? [],
+    next_cursor: response.data.next_cursor ?? null
+  };
+}
+
+export async function getDraft(grantId: string, draftId: string) {
+  const response = await axios.get(draftsUrl(grantId, draftId), { headers: nylasHeaders() });
+  return response.data.data;
+}
+
+/**
+ * Change a draft. Only the fields given are updated; an empty list clears
+ * recipients, and attachments (if any are given) replace the existing ones.
+ */
+export async function updateDraft(grantId: string, draftId: string, update: DraftUpdate, attachments: Attachment[]) {
+  const payload: Record<string, unknown> = {};
+  for (const field of UPDATABLE_FIELDS) {
+    const value = update[field];
+    if (value === undefined) {
+      continue;
+    }
+    payload[field] = RECIPIENT_FIELDS.has(field)
+      ? (value as EmailRecipient[]).map((recipient) => ({ email: recipient.email, name: recipient.name || '' }))
+      : value;
+  }
+
+  const { data, headers } = buildSendRequest(payload, attachments);
+  const response = await axios.put(draftsUrl(grantId, draftId), data, {
+    headers: { ...headers, ...nylasHeaders() }
+  });
+  return response.data.data;
+}
+
+export async function deleteDraft(grantId: string, draftId: string): Promise<void> {
+  await axios.delete(draftsUrl(grantId, draftId), { headers: nylasHeaders() });
+}
+
+/**
+ * Send a draft as it is; returns the sent message. A draft sent with
+ * `tracking_options` is recorded for open, click and reply reports.
+ */
+export async function sendDraft(grantId: string, draftId: string) {
+  // Sending consumes the draft, so read its tracking options first
+  const draft = await getDraft(grantId, draftId);
+  const response = await axios.post(draftsUrl(grantId, draftId), undefined, { headers: nylasHeaders() });
+  const message = response.data.data;
+  if (!message?.id) {
+    return message;
+  }
+
+  // Drafts created through the outbox (send_draft: false) now count as sent
+  const entry = markDraftSent(draftId, message.id);
+  const trackingOptions: SendEmailRequest['tracking_options'] =
+    draft?.tracking_options ?? message.tracking_options ?? (entry && getOutboxRequest(entry.id)?.tracking_options);
+  if (trackingOptions) {
+    recordTrackedMessage({
+      message_id: message.id,
+      grant_id: grantId,
+      subject: message.subject ?? draft?.subject ?? '',
+      tracking_options: trackingOptions,
+      sent_at: Date.now()
+    });
+  }
+  return message;
+}
@@ -0,0 +1,70 @@
+import { describe, expect, test } from 'bun:test';
+import { AttachmentError, buildSendRequest, checkAttachment, checkTotalSize, decodeAttachments, type Attachment } from './email-attachments';
+
+const MB = 1024 * 1024;
+
+function attachment(bytes: number, contentType = 'application/pdf'): Attachment {
+  return { filename: 'report.pdf', contentType, content: Buffer.alloc(bytes) };
+}
+
+// The status code of the AttachmentError thrown by fn
+function statusOf(fn: () => unknown): number | undefined {
+  try {
+    fn();
+    return undefined;
+  } catch (error) {
+    return error instanceof AttachmentError ? error.statusCode : undefined;
+  }
+}
+
+describe('decodeAttachments', () => {
+  test('decodes base64 content', () => {
+    const [decoded] = decodeAttachments([
+      { filename: 'notes.txt', content_type: 'text/plain; charset=utf-8', content: Buffer.from('hello').toString('base64') }
+    ]);
+    expect(decoded!.content.toString()).toBe('hello');
+  });
+
+  test.each<[string, unknown, number]>([
+    ['a non-array', { filename: 'a.pdf' }, 400],
+    ['a missing content type', [{ filename: 'a.pdf', content: 'aGk=' }], 400],
+    ['content that is not base64', [{ filename: 'a.pdf', content_type: 'application/pdf', content: 'not base64!' }], 400],
+    ['a disallowed type', [{ filename: 'run.sh', content_type: 'application/x-sh', content: 'aGk=' }], 415]
+  ])('rejects %s', (_, inputs, status) => {
+    expect(statusOf(() => decodeAttachments(inputs as never))).toBe(status);
+  });
+});
+
+describe('size limits', () => {
+  test('allows a file at the per-file limit and rejects one above it', () => {
+    expect(statusOf(() => checkAttachment(attachment(10 * MB)))).toBeUndefined();
+    expect(statusOf(() => checkAttachment(attachment(10 * MB + 1)))).toBe(413);
+  });
+
+  test('compares content types without parameters or case', () => {
+    expect(statusOf(() => checkAttachment(attachment(1, 'Text/Plain; charset=utf-8')))).toBeUndefined();
+    expect(statusOf(() => checkAttachment(attachment(1, '')))).toBe(415);
+  });
+
+  test('rejects attachments that add up to more than the total limit', () => {
+    expect(statusOf(() => checkTotalSize([attachment(10 * MB), attachment(10 * MB), attachment(5 * MB)]))).toBeUndefined();
+    expect(statusOf(() => checkTotalSize([attachment(10 * MB), attachment(10 * MB), attachment(5 * MB + 1)]))).toBe(413);
+  });
+});
+
+describe('buildSendRequest', () => {
+  test('sends attachments inline up to 3 MB', () => {
+    const request = buildSendRequest({ subject: 'Report' }, [{ ...attachment(3 * MB), contentId: 'logo' }]);
+    expect(request.headers).toEqual({ 'Content-Type': 'application/json' });
+    const body = JSON.parse(request.data as string);
+    expect(body.attachments[0]).toMatchObject({ filename: 'report.pdf', content_type: 'application/pdf', content_id: 'logo', is_inline: true });
+  });
+
+  test('switches to multipart above 3 MB', () => {
+    const request = buildSendRequest({ subject: 'Report' }, [attachment(3 * MB + 1)]);
+    expect(request.data).toBeInstanceOf(FormData);
+    const form = request.data as FormData;
+    expect(JSON.parse(form.get('message') as string)).toEqual({ subject: 'Report' });
+    expect((form.get('file0') as File).size).toBe(3 * MB + 1);
+  });
+});
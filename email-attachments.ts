@@ -0,0 +1,204 @@
+/**
+ * Nylas Pub/Sub Integration - Email Attachments
+ *
+ * Decodes and checks attachments for /api/send-email and builds the request
+ * Nylas expects. Attachments are sent inline (base64 in JSON) while they stay
+ * under Nylas' 3 MB limit for JSON requests; larger messages are sent as
+ * multipart/form-data with the message JSON in a `message` field.
+ *
+ * @license MIT
+ * @copyright Copyright (c) 2025 Aemal Sayer
+ */
+
+import type { FastifyRequest } from 'fastify';
+import type {} from '@fastify/multipart';
+import { config } from './config';
+import { getLogger } from './logger';
+import type { AttachmentInput, SendEmailRequest } from './types';
+
+// Nylas rejects JSON requests whose attachments add up to more than this
+const INLINE_LIMIT_BYTES = 3 * 1024 * 1024;
+
+const MAX_FILE_BYTES = config.attachments.maxFileBytes;
+const MAX_TOTAL_BYTES = config.attachments.maxTotalBytes;
+const ALLOWED_TYPES = config.attachments.allowedTypes;
+
+// A decoded attachment ready to send
+export interface Attachment {
+  filename: string;
+  contentType: string;
+  content: Buffer;
+  contentId?: string;
+}
+
+export interface NylasSendRequest {
+  data: string | FormData;
+  headers: Record<string, string>;
+}
+
+/**
+ * Thrown when an attachment is malformed, too large or of a disallowed type
+ */
+export class AttachmentError extends Error {
+  constructor(
+    public readonly statusCode: number,
+    message: string
+  ) {
+    super(message);
+    this.name = 'AttachmentError';
+  }
+}
+
+function formatMb(bytes: number): string {
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+// Drop parameters such as "; charset=utf-8" before comparing
+function normalizeContentType(contentType: string): string {
+  return contentType.split(';')[0]!.trim().toLowerCase();
+}
+
+function checkContentType(filename: string, declaredType: string): void {
+  const contentType = normalizeContentType(declaredType);
+  if (!ALLOWED_TYPES.includes(contentType)) {
+    throw new AttachmentError(415, `Attachment "${filename}" has a disallowed content type: ${contentType || 'none'}`);
+  }
+}
+
+/**
+ * Check the per-file size and content type of one attachment
+ */
+export function checkAttachment(attachment: Attachment): void {
+  checkContentType(attachment.filename, attachment.contentType);
+  if (attachment.content.length > MAX_FILE_BYTES) {
+    throw new AttachmentError(
+      413,
+      `Attachment "${attachment.filename}" is ${formatMb(attachment.content.length)}; the limit is ${formatMb(MAX_FILE_BYTES)} per file`
+    );
+  }
+}
+
+/**
+ * Check the total size of all attachments on a message
+ */
+export function checkTotalSize(attachments: Attachment[]): void {
+  const total = attachments.reduce((sum, attachment) => sum + attachment.content.length, 0);
+  if (total > MAX_TOTAL_BYTES) {
+    throw new AttachmentError(413, `Attachments add up to ${formatMb(total)}; the limit is ${formatMb(MAX_TOTAL_BYTES)} per message`);
+  }
+}
+
+/**
+ * Decode and check the base64 attachments of a JSON request
+ */
+export function decodeAttachments(inputs: AttachmentInput[] | undefined): Attachment[] {
+  if (inputs === undefined) {
+    return [];
+  }
+  if (!Array.isArray(inputs)) {
+    throw new AttachmentError(400, 'The "attachments" field must be an array');
+  }
+
+  const attachments = inputs.map((input, index) => {
+    if (!input || typeof input.filename !== 'string' || typeof input.content !== 'string' || typeof input.content_type !== 'string') {
+      throw new AttachmentError(400, `Attachment #${index + 1} needs "filename", "content_type" and base64 "content"`);
+    }
+    if (!/^[A-Za-z0-9+/\r\n]*={0,2}$/.test(input.content)) {
+      throw new AttachmentError(400, `Attachment "${input.filename}" is not valid base64`);
+    }
+
+    const attachment: Attachment = {
+      filename: input.filename,
+      contentType: input.content_type,
+      content: Buffer.from(input.content, 'base64'),
+      contentId: input.content_id
+    };
+    checkAttachment(attachment);
+    return attachment;
+  });
+
+  checkTotalSize(attachments);
+  return attachments;
+}
+
+/**
+ * Build the Nylas request body for a message, switching to multipart
+ * when the attachments are too large to send inline
+ */
+export function buildSendRequest(payload: Record<string, unknown>, attachments: Attachment[]): NylasSendRequest {
+  const total = attachments.reduce((sum, attachment) => sum + attachment.content.length, 0);
+
+  if (total <= INLINE_LIMIT_BYTES) {
+    const body = attachments.length === 0 ? payload : {
+      ...payload,
+      attachments: attachments.map((attachment) => ({
+        filename: attachment.filename,
+        content_type: normalizeContentType(attachment.contentType),
+        content: attachment.content.toString('base64'),
+        ...(attachment.contentId ? { content_id: attachment.contentId, is_inline: true } : {})
+      }))
+    };
+    return { data: JSON.stringify(body), headers: { 'Content-Type': 'application/json' } };
+  }
+
+  getLogger().info(`📎 Attachments total ${formatMb(total)}, sending as multipart/form-data`);
+  const form = new FormData();
+  form.append('message', JSON.stringify(payload));
+  attachments.forEach((attachment, index) => {
+    // Nylas matches inline images by content ID, which is taken from the field name
+    const field = attachment.contentId || `file${index}`;
+    form.append(field, new Blob([attachment.content], { type: normalizeContentType(attachment.contentType) }), attachment.filename);
+  });
+  // axios sets the multipart boundary itself
+  return { data: form, headers: {} };
+}
+
+/**
+ * Read a multipart/form-data send request: the message JSON in a `message`
+ * field and any number of file parts
+ */
+export async function readMultipartEmail(
+  request: FastifyRequest
+): Promise<{ emailRequest: SendEmailRequest; attachments: Attachment[] }> {
+  let emailRequest: SendEmailRequest | undefined;
+  const attachments: Attachment[] = [];
+
+  try {
+    for await (const part of request.parts()) {
+      if (part.type === 'file') {
+        // Refuse disallowed types before reading the file
+        checkContentType(part.filename, part.mimetype);
+        const attachment: Attachment = {
+          filename: part.filename,
+          contentType: part.mimetype,
+          content: await part.toBuffer()
+        };
+        checkAttachment(attachment);
+        attachments.push(attachment);
+      } else if (part.fieldname === 'message') {
+        try {
+          emailRequest = JSON.parse(String(part.value));
+        } catch {
+          throw new AttachmentError(400, 'The "message" field must contain the email as JSON');
+        }
+      }
+    }
+  } catch (error) {
+    // Limits enforced by @fastify/multipart while streaming (file size, file count)
+    const code = (error as { code?: string }).code;
+    if (code === 'FST_REQ_FILE_TOO_LARGE') {
+      throw new AttachmentError(413, `An attachment exceeds the limit of ${formatMb(MAX_FILE_BYTES)} per file`);
+    }
+    if (code === 'FST_FILES_LIMIT') {
+      throw new AttachmentError(413, 'Too many attachments');
+    }
+    throw error;
+  }
+
+  if (!emailRequest) {
+    throw new AttachmentError(400, 'Multipart requests need a "message" field with the email as JSON');
+  }
+
+  checkTotalSize(attachments);
+  return { emailRequest, attachments };
+}
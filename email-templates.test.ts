@@ -0,0 +1,28 @@
+import { describe, expect, test } from 'bun:test';
+import { renderTemplate, TemplateError } from './email-templates';
+
+describe('renderTemplate', () => {
+  const variables = { name: 'Ada', company: 'Analytical Engines' };
+
+  test('escapes variables in the body', () => {
+    const { subject, body } = renderTemplate('welcome', { ...variables, name: '<b>Ada</b>' });
+    expect(subject).toContain('<b>Ada</b>');
+    expect(body).toContain('&lt;b&gt;Ada&lt;/b&gt;');
+  });
+
+  test('links to an http(s) URL', () => {
+    const { body } = renderTemplate('welcome', { ...variables, login_url: 'https://example.com/login?next=%2Fhome' });
+    expect(body).toContain('href="https://example.com/login?next&#x3D;%2Fhome"');
+  });
+
+  test.each(['javascript:alert(1)', 'data:text/html,<script>alert(1)</script>', '/relative/path'])(
+    'rejects %s as a link',
+    (login_url) => {
+      expect(() => renderTemplate('welcome', { ...variables, login_url })).toThrow(TemplateError);
+    }
+  );
+
+  test('reports a missing variable', () => {
+    expect(() => renderTemplate('welcome', { name: 'Ada' })).toThrow('Missing variable "company"');
+  });
+});
@@ -0,0 +1,145 @@
+/**
+ * Nylas Pub/Sub Integration - Email Templates
+ *
+ * Named Handlebars templates stored on the server. Each template is a
+ * directory under TEMPLATES_DIR (default: templates) with a `subject.hbs`
+ * and a `body.hbs`; shared snippets live in `partials/` and are used as
+ * {{> footer}}. Variables are HTML-escaped in the body ({{{raw}}} opts out),
+ * and a variable the template uses but the caller did not pass is an error.
+ * Links built from variables go through {{safeUrl link}}, which only lets
+ * http(s) URLs through.
+ * Files are read on every render, so edits show up without a restart.
+ *
+ * @license MIT
+ * @copyright Copyright (c) 2025 Aemal Sayer
+ */
+
+import fs from 'fs';
+import path from 'path';
+import Handlebars from 'handlebars';
+import { config } from './config';
+
+const TEMPLATES_DIR = config.templates.dir;
+const PARTIALS_DIR = path.join(TEMPLATES_DIR, 'partials');
+
+// Template and partial names double as directory and file names
+const NAME_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+export interface RenderedEmail {
+  subject: string;
+  body: string;
+}
+
+/**
+ * Thrown when a template does not exist or cannot be rendered
+ */
+export class TemplateError extends Error {
+  constructor(
+    public readonly statusCode: number,
+    message: string
+  ) {
+    super(message);
+    this.name = 'TemplateError';
+  }
+}
+
+function templateDir(name: string): string {
+  if (!NAME_PATTERN.test(name) || name === 'partials') {
+    throw new TemplateError(400, `Invalid template name: ${name}`);
+  }
+  return path.join(TEMPLATES_DIR, name);
+}
+
+/**
+ * Names of the available templates
+ */
+export function listTemplates(): string[] {
+  if (!fs.existsSync(TEMPLATES_DIR)) {
+    return [];
+  }
+  return fs
+    .readdirSync(TEMPLATES_DIR, { withFileTypes: true })
+    .filter((entry) => entry.isDirectory() && entry.name !== 'partials' && NAME_PATTERN.test(entry.name))
+    .filter((entry) => fs.existsSync(path.join(TEMPLATES_DIR, entry.name, 'body.hbs')))
+    .map((entry) => entry.name)
+    .sort();
+}
+
+/**
+ * The value if it is an absolute http(s) URL; escaping alone would still let
+ * javascript: and data: links into an href
+ */
+function safeUrl(value: unknown): string {
+  const text = String(value ?? '').trim();
+  let protocol: string;
+  try {
+    protocol = new URL(text).protocol;
+  } catch {
+    throw new TemplateError(400, `Not a valid URL: ${text}`);
+  }
+  if (protocol !== 'http:' && protocol !== 'https:') {
+    throw new TemplateError(400, `Only http and https URLs are allowed in links, got ${protocol}`);
+  }
+  return text;
+}
+
+// A fresh Handlebars environment with the current partials and helpers registered
+function createEnvironment(): typeof Handlebars {
+  const handlebars = Handlebars.create();
+  handlebars.registerHelper('safeUrl', safeUrl);
+  if (fs.existsSync(PARTIALS_DIR)) {
+    for (const file of fs.readdirSync(PARTIALS_DIR)) {
+      if (file.endsWith('.hbs')) {
+        handlebars.registerPartial(path.basename(file, '.hbs'), fs.readFileSync(path.join(PARTIALS_DIR, file), 'utf-8'));
+      }
+    }
+  }
+  return handlebars;
+}
+
+function render(
+  handlebars: typeof Handlebars,
+  source: string,
+  variables: Record<string, unknown>,
+  options: { escape: boolean; label: string }
+): string {
+  try {
+    // Strict mode reports missing variables instead of rendering them as empty
+    return handlebars.compile(source, { strict: true, noEscape: !options.escape })(variables);
+  } catch (error) {
+    if (error instanceof TemplateError) {
+      throw error;
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    const missing = message.match(/^"([^"]+)" not defined/);
+    throw new TemplateError(
+      400,
+      missing ? `Missing variable "${missing[1]}" in ${options.label}` : `Failed to render ${options.label}: ${message}`
+    );
+  }
+}
+
+/**
+ * Render a template's subject (plain text) and body (HTML)
+ */
+export function renderTemplate(name: string, variables: Record<string, unknown> = {}): RenderedEmail {
+  const dir = templateDir(name);
+  const bodyFile = path.join(dir, 'body.hbs');
+  if (!fs.existsSync(bodyFile)) {
+    throw new TemplateError(404, `Template not found: ${name}`);
+  }
+  if (typeof variables !== 'object' || variables === null || Array.isArray(variables)) {
+    throw new TemplateError(400, 'The "variables" field must be an object');
+  }
+
+  const subjectFile = path.join(dir, 'subject.hbs');
+  const handlebars = createEnvironment();
+
+  return {
+    // The subject is not HTML, so it is not escaped
+    subject: fs.existsSync(subjectFile)
+      ? render(handlebars, fs.readFileSync(subjectFile, 'utf-8'), variables, { escape: false, label: `${name}/subject.hbs` }).trim()
+      : '',
+    body: render(handlebars, fs.readFileSync(bodyFile, 'utf-8'), variables, { escape: true, label: `${name}/body.hbs` })
+  };
+}
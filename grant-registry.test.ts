@@ -0,0 +1,58 @@
+import { describe, expect, test } from 'bun:test';
+import { getGrant, GrantUnavailableError, resolveGrant } from './grant-registry';
+import { dispatcher } from './notification-dispatcher';
+import { validateNotification } from './notification-schemas';
+import { buildNotification } from './simulate';
+
+// Run the registry handlers only, as Nylas would deliver the notification
+async function deliver(trigger: string, grantId: string, overrides: Record<string, unknown> = {}) {
+  const notification = validateNotification(buildNotification(trigger, { grantId, overrides }));
+  await dispatcher.dispatch(notification, 'webhook', { only: ['grant-activity', 'grant-registry'] });
+}
+
+function statusCode(grantId: string): number | undefined {
+  try {
+    resolveGrant(grantId);
+    return undefined;
+  } catch (error) {
+    return error instanceof GrantUnavailableError ? error.statusCode : undefined;
+  }
+}
+
+describe('grant registry', () => {
+  test('follows a grant through expiry, re-authentication and deletion', async () => {
+    await deliver('grant.created', 'registry-grant-1', { email: 'ada@example.com', provider: 'microsoft' });
+    expect(getGrant('registry-grant-1')).toMatchObject({ status: 'valid', email: 'ada@example.com', provider: 'microsoft' });
+    expect(resolveGrant('registry-grant-1')).toBe('registry-grant-1');
+
+    await deliver('grant.expired', 'registry-grant-1', { email: undefined, provider: undefined });
+    // Fields missing from the notification keep their previous values
+    expect(getGrant('registry-grant-1')).toMatchObject({ status: 'expired', email: 'ada@example.com', provider: 'microsoft' });
+    expect(statusCode('registry-grant-1')).toBe(409);
+
+    await deliver('grant.updated', 'registry-grant-1');
+    expect(getGrant('registry-grant-1')?.status).toBe('valid');
+    expect(statusCode('registry-grant-1')).toBeUndefined();
+
+    await deliver('grant.deleted', 'registry-grant-1');
+    expect(getGrant('registry-grant-1')?.status).toBe('deleted');
+    expect(statusCode('registry-grant-1')).toBe(410);
+  });
+
+  test('records grants first seen through other notifications as valid', async () => {
+    await deliver('message.created', 'registry-grant-2');
+    const grant = getGrant('registry-grant-2');
+    expect(grant).toMatchObject({ status: 'valid', email: null });
+    expect(grant?.last_notification_at).not.toBeNull();
+
+    // Activity does not bring an expired grant back
+    await deliver('grant.expired', 'registry-grant-2');
+    await deliver('message.created', 'registry-grant-2');
+    expect(getGrant('registry-grant-2')?.status).toBe('expired');
+  });
+
+  test('allows grants it has not heard about and falls back to NYLAS_GRANT_ID', () => {
+    expect(resolveGrant('registry-unknown')).toBe('registry-unknown');
+    expect(resolveGrant()).toBe('test-grant');
+  });
+});
@@ -0,0 +1,152 @@
+/**
+ * Nylas Pub/Sub Integration - Grant Registry
+ *
+ * Tracks the connected mailboxes (grants) this application can act for.
+ * The registry is kept current from grant.created, grant.updated,
+ * grant.expired and grant.deleted notifications, and is consulted before
+ * any API call made on behalf of a grant.
+ *
+ * @license MIT
+ * @copyright Copyright (c) 2025 Aemal Sayer
+ */
+
+import { config } from './config';
+import { db } from './database';
+import { getLogger } from './logger';
+import { dispatcher } from './notification-dispatcher';
+import type { GrantObject } from './notification-schemas';
+
+export type GrantStatus = 'valid' | 'expired' | 'deleted';
+
+export interface GrantRecord {
+  grant_id: string;
+  status: GrantStatus;
+  email: string | null;
+  provider: string | null;
+  integration_id: string | null;
+  last_notification_at: number | null;
+  created_at: number;
+  updated_at: number;
+}
+
+db.exec(`
+  CREATE TABLE IF NOT EXISTS grants (
+    grant_id TEXT PRIMARY KEY,
+    status TEXT NOT NULL,
+    email TEXT,
+    provider TEXT,
+    integration_id TEXT,
+    last_notification_at INTEGER,
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL
+  );
+`);
+
+const upsertGrantRow = db.prepare(`
+  INSERT INTO grants (grant_id, status, email, provider, integration_id, created_at, updated_at)
+  VALUES ($grant_id, $status, $email, $provider, $integration_id, $now, $now)
+  ON CONFLICT (grant_id) DO UPDATE SET
+    status = excluded.status,
+    email = COALESCE(excluded.email, grants.email),
+    provider = COALESCE(excluded.provider, grants.provider),
+    integration_id = COALESCE(excluded.integration_id, grants.integration_id),
+    updated_at = excluded.updated_at
+`);
+
+// Grants first seen through a message or event notification are assumed usable
+const touchGrantRow = db.prepare(`
+  INSERT INTO grants (grant_id, status, last_notification_at, created_at, updated_at)
+  VALUES ($grant_id, 'valid', $now, $now, $now)
+  ON CONFLICT (grant_id) DO UPDATE SET last_notification_at = excluded.last_notification_at
+`);
+
+const selectGrant = db.prepare('SELECT * FROM grants WHERE grant_id = $grant_id');
+const selectGrants = db.prepare('SELECT * FROM grants ORDER BY updated_at DESC');
+
+/**
+ * Thrown when an API call cannot be made for the requested grant
+ */
+export class GrantUnavailableError extends Error {
+  constructor(
+    public readonly grantId: string | undefined,
+    public readonly statusCode: number,
+    message: string
+  ) {
+    super(message);
+    this.name = 'GrantUnavailableError';
+  }
+}
+
+export function recordGrant(object: GrantObject, status: GrantStatus): GrantRecord {
+  upsertGrantRow.run({
+    $grant_id: object.grant_id,
+    $status: status,
+    $email: object.email ?? null,
+    $provider: object.provider ?? null,
+    $integration_id: object.integration_id ?? null,
+    $now: Date.now()
+  });
+  return getGrant(object.grant_id)!;
+}
+
+export function getGrant(grantId: string): GrantRecord | null {
+  return (selectGrant.get({ $grant_id: grantId }) as GrantRecord | null) ?? null;
+}
+
+export function listGrants(): GrantRecord[] {
+  return selectGrants.all() as GrantRecord[];
+}
+
+/**
+ * Pick the grant for an API call: the requested one, or NYLAS_GRANT_ID.
+ * Grants the registry knows to be expired or deleted are refused; grants it
+ * has not heard about yet (e.g. connected before this server started) are allowed.
+ */
+export function resolveGrant(requestedGrantId?: string): string {
+  const grantId = requestedGrantId || config.nylas.grantId;
+  if (!grantId) {
+    throw new GrantUnavailableError(undefined, 400, 'No grant selected: pass "grant_id" or set NYLAS_GRANT_ID');
+  }
+
+  const grant = getGrant(grantId);
+  if (grant?.status === 'expired') {
+    throw new GrantUnavailableError(grantId, 409, `Grant ${grantId} has expired; the user must re-authenticate`);
+  }
+  if (grant?.status === 'deleted') {
+    throw new GrantUnavailableError(grantId, 410, `Grant ${grantId} has been revoked`);
+  }
+  return grantId;
+}
+
+// Keep the registry current from grant notifications
+dispatcher.on('*', (notification) => {
+  const grantId = notification.data.grant_id;
+  if (!grantId) {
+    return;
+  }
+  touchGrantRow.run({ $grant_id: grantId, $now: Date.now() });
+  const grant = getGrant(grantId);
+  if (grant && grant.status !== 'valid' && notification.kind !== 'grant') {
+    getLogger().warn(`⚠️ Received ${notification.type} for ${grant.status} grant ${grantId}`);
+  }
+}, 'grant-activity');
+
+dispatcher.on('grant.created', (notification) => {
+  const grant = recordGrant(notification.data.object, 'valid');
+  getLogger().info(`🔑 Grant connected: ${grant.grant_id} (${grant.provider || 'unknown provider'})`);
+}, 'grant-registry');
+
+dispatcher.on('grant.updated', (notification) => {
+  // An update after re-authentication makes an expired grant usable again
+  recordGrant(notification.data.object, 'valid');
+}, 'grant-registry');
+
+dispatcher.on('grant.expired', (notification) => {
+  const grant = recordGrant(notification.data.object, 'expired');
+  getLogger().warn(`⚠️ Grant expired: ${grant.grant_id}`);
+}, 'grant-registry');
+
+dispatcher.on('grant.deleted', (notification) => {
+  const grant = recordGrant(notification.data.object, 'deleted');
+  getLogger().warn(`⚠️ Grant deleted: ${grant.grant_id}`);
+}, 'grant-registry');
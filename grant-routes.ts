@@ -0,0 +1,27 @@
+/**
+ * Nylas Pub/Sub Integration - Grant Routes
+ * 
+ * Read-only routes over the grant registry.
+ * 
+ * @license MIT
+ * @copyright Copyright (c) 2025 Aemal Sayer
+ */
+
+import type { FastifyInstance } from 'fastify';
+import { getGrant, listGrants } from './grant-registry';
+
+export async function grantRoutes(fastify: FastifyInstance) {
+  // Connected grants and their status (valid, expired or deleted)
+  fastify.get('/api/grants', async (request, reply) => {
+    const grants = listGrants();
+    return { data: grants, count: grants.length };
+  });
+
+  fastify.get<{ Params: { id: string } }>('/api/grants/:id', async (request, reply) => {
+    const grant = getGrant(request.params.id);
+    if (!grant) {
+      return reply.code(404).send({ error: 'Grant not found' });
+    }
+    return grant;
+  });
+}
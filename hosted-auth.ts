@@ -0,0 +1,173 @@
+/**
+ * Nylas Pub/Sub Integration - Hosted Authentication
+ *
+ * Runs the Nylas hosted OAuth flow that connects a mailbox and creates a
+ * grant. Each authorization gets a one-time `state` and a PKCE verifier,
+ * kept in SQLite until the callback arrives; the code is exchanged at
+ * /v3/connect/token and the resulting grant is added to the registry.
+ *
+ * @license MIT
+ * @copyright Copyright (c) 2025 Aemal Sayer
+ */
+
+import crypto from 'crypto';
+import axios from 'axios';
+import { config } from './config';
+import { db } from './database';
+import { recordGrant, type GrantRecord } from './grant-registry';
+
+// How long a started authorization may take to come back
+const STATE_TTL_MS = 10 * 60 * 1000;
+
+// The browser that started an authorization keeps its state in this cookie
+export const STATE_COOKIE = 'nylas_auth_state';
+export const STATE_COOKIE_MAX_AGE_SECONDS = STATE_TTL_MS / 1000;
+
+const cookieKey = config.auth.cookieSecret ?? crypto.randomBytes(32);
+
+db.exec(`
+  CREATE TABLE IF NOT EXISTS oauth_states (
+    state TEXT PRIMARY KEY,
+    code_verifier TEXT NOT NULL,
+    created_at INTEGER NOT NULL
+  );
+`);
+
+const insertState = db.prepare(
+  'INSERT INTO oauth_states (state, code_verifier, created_at) VALUES ($state, $code_verifier, $now)'
+);
+const takeState = db.prepare('DELETE FROM oauth_states WHERE state = $state RETURNING *');
+const deleteExpiredStates = db.prepare('DELETE FROM oauth_states WHERE created_at < $cutoff');
+
+export interface AuthorizationOptions {
+  provider?: string; // e.g. "google" or "microsoft"; Nylas asks the user when omitted
+  loginHint?: string; // Email address to pre-fill
+}
+
+// Token endpoint response (only the fields we use)
+interface TokenResponse {
+  grant_id: string;
+  email?: string;
+  provider?: string;
+}
+
+/**
+ * Thrown when a callback cannot be completed
+ */
+export class HostedAuthError extends Error {
+  constructor(
+    public readonly statusCode: number,
+    message: string
+  ) {
+    super(message);
+    this.name = 'HostedAuthError';
+  }
+}
+
+function base64Url(buffer: Buffer): string {
+  return buffer.toString('base64url');
+}
+
+function signature(state: string): string {
+  return base64Url(crypto.createHmac('sha256', cookieKey).update(state).digest());
+}
+
+/**
+ * The state cookie value for a started authorization: the state and its signature
+ */
+export function signState(state: string): string {
+  return `${state}.${signature(state)}`;
+}
+
+/**
+ * Check that a state cookie was issued by this server for this state
+ */
+function matchesStateCookie(state: string, cookie: string | undefined): boolean {
+  if (!cookie) {
+    return false;
+  }
+  const expected = Buffer.from(signState(state));
+  const actual = Buffer.from(cookie);
+  return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+}
+
+/**
+ * Start an authorization: remember a new state and PKCE verifier and
+ * return the Nylas URL to send the user to, with the state to keep in STATE_COOKIE
+ */
+export function createAuthorizationUrl(options: AuthorizationOptions = {}): { url: string; state: string } {
+  if (!config.auth.clientId) {
+    throw new HostedAuthError(500, 'NYLAS_CLIENT_ID is not configured');
+  }
+
+  const now = Date.now();
+  deleteExpiredStates.run({ $cutoff: now - STATE_TTL_MS });
+
+  const state = base64Url(crypto.randomBytes(24));
+  const codeVerifier = base64Url(crypto.randomBytes(32));
+  const codeChallenge = base64Url(crypto.createHash('sha256').update(codeVerifier).digest());
+  insertState.run({ $state: state, $code_verifier: codeVerifier, $now: now });
+
+  const params = new URLSearchParams({
+    client_id: config.auth.clientId,
+    redirect_uri: config.auth.callbackUrl,
+    response_type: 'code',
+    access_type: 'offline',
+    state,
+    code_challenge: codeChallenge,
+    code_challenge_method: 'S256'
+  });
+  if (options.provider) {
+    params.set('provider', options.provider);
+  }
+  if (options.loginHint) {
+    params.set('login_hint', options.loginHint);
+  }
+
+  return { url: `${config.auth.connectUri}/v3/connect/auth?${params}`, state };
+}
+
+/**
+ * Finish an authorization: check the state against the one in the browser's
+ * STATE_COOKIE, exchange the code and store the grant
+ */
+export async function completeAuthorization(code: string, state: string, stateCookie: string | undefined): Promise<GrantRecord> {
+  // A callback opened in another browser (e.g. a link planted by someone else) is refused
+  if (!matchesStateCookie(state, stateCookie)) {
+    throw new HostedAuthError(400, 'The authorization was not started in this browser; start it again');
+  }
+
+  // States are single use, whether or not the exchange succeeds
+  const pending = takeState.get({ $state: state }) as { code_verifier: string; created_at: number } | null;
+  if (!pending || pending.created_at < Date.now() - STATE_TTL_MS) {
+    throw new HostedAuthError(400, 'Unknown or expired state; start the authorization again');
+  }
+
+  let token: TokenResponse;
+  try {
+    const response = await axios.post(
+      `${config.auth.connectUri}/v3/connect/token`,
+      {
+        client_id: config.auth.clientId,
+        client_secret: config.nylas.apiKey,
+        grant_type: 'authorization_code',
+        code,
+        redirect_uri: config.auth.callbackUrl,
+        code_verifier: pending.code_verifier
+      },
+      { headers: { 'Content-Type': 'application/json', 'Accept': 'application/json' } }
+    );
+    token = response.data;
+  } catch (error) {
+    const message = axios.isAxiosError(error) && error.response
+      ? `HTTP ${error.response.status}: ${error.response.data?.error_description || error.response.data?.error || error.message}`
+      : error instanceof Error ? error.message : String(error);
+    throw new HostedAuthError(502, `Code exchange failed (${message})`);
+  }
+
+  if (!token?.grant_id) {
+    throw new HostedAuthError(502, 'Code exchange did not return a grant_id');
+  }
+
+  return recordGrant({ grant_id: token.grant_id, email: token.email, provider: token.provider }, 'valid');
+}
@@ -0,0 +1,131 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+import Fastify from 'fastify';
+import { db } from './database';
+import { applyRules, ruleMatches, type InboxRule } from './inbox-rules';
+import { upsertMessage } from './mailbox-mirror';
+import type { MessageObject } from './notification-schemas';
+import { ruleRoutes } from './rule-routes';
+
+// Stand-in for the webhook receivers of the rule in test-rules.json
+let server: ReturnType<typeof Bun.serve>;
+const calls: string[] = [];
+let secondFails = true;
+
+beforeAll(() => {
+  server = Bun.serve({
+    port: 3199,
+    fetch(request) {
+      const { pathname } = new URL(request.url);
+      calls.push(pathname);
+      return new Response(null, { status: pathname === '/second' && secondFails ? 503 : 204 });
+    }
+  });
+});
+
+afterAll(() => {
+  server.stop(true);
+});
+
+function rule(match: InboxRule['match'], overrides: Partial<InboxRule> = {}): InboxRule {
+  return { name: 'test', enabled: true, dry_run: false, stop: false, match, actions: [{ type: 'mark_read' }], ...overrides };
+}
+
+const message: MessageObject = {
+  id: 'message-1',
+  subject: 'Invoice #42 for May',
+  from: [{ email: 'Billing@Vendor.example' }],
+  to: [{ email: 'ada@example.com' }],
+  cc: [{ email: 'finance@example.com' }],
+  folders: ['INBOX', 'UNREAD'],
+  attachments: [{ id: 'attachment-1', filename: 'invoice.pdf' }]
+};
+
+describe('ruleMatches', () => {
+  test.each<[string, InboxRule['match']]>([
+    ['a sender address, ignoring case', { from: ['billing@vendor.example'] }],
+    ['a sender domain', { from: ['@vendor.example'] }],
+    ['a cc recipient', { to: ['finance@example.com'] }],
+    ['a subject pattern, ignoring case', { subject: '^invoice #\\d+' }],
+    ['one of several folders', { folder: ['SPAM', 'INBOX'] }],
+    ['every condition together', { from: ['@vendor.example'], subject: 'invoice', has_attachment: true }]
+  ])('matches %s', (_, match) => {
+    expect(ruleMatches(rule(match), message, 'test-grant')).toBe(true);
+  });
+
+  test.each<[string, InboxRule['match']]>([
+    ['another sender', { from: ['@other.example'] }],
+    ['a domain suffix without the @', { from: ['@endor.example'] }],
+    ['another subject', { subject: 'receipt' }],
+    ['another folder', { folder: 'SPAM' }],
+    ['a message without attachments', { has_attachment: false }],
+    ['only some of the conditions', { from: ['@vendor.example'], subject: 'receipt' }]
+  ])('does not match %s', (_, match) => {
+    expect(ruleMatches(rule(match), message, 'test-grant')).toBe(false);
+  });
+
+  test('skips disabled rules and rules for other grants', () => {
+    expect(ruleMatches(rule({}, { enabled: false }), message, 'test-grant')).toBe(false);
+    expect(ruleMatches(rule({}, { grants: ['other-grant'] }), message, 'test-grant')).toBe(false);
+    expect(ruleMatches(rule({}, { grants: ['test-grant'] }), message, 'test-grant')).toBe(true);
+  });
+});
+
+describe('applyRules', () => {
+  const report: MessageObject = { id: 'report-1', subject: 'Weekly report', from: [{ email: 'bot@rules-test.example' }] };
+
+  test('retries only the actions that did not complete for a notification', async () => {
+    const [first] = await applyRules(report, 'test-grant', { notificationId: 'rules-notification-1' });
+    expect(first!.actions.map((action) => action.status)).toEqual(['done', 'failed']);
+
+    secondFails = false;
+    const [retry] = await applyRules(report, 'test-grant', { notificationId: 'rules-notification-1' });
+    expect(retry!.actions.map((action) => action.status)).toEqual(['skipped', 'done']);
+    expect(calls).toEqual(['/first', '/second', '/second']);
+
+    // Another notification runs every action
+    await applyRules(report, 'test-grant', { notificationId: 'rules-notification-2' });
+    expect(calls.slice(3)).toEqual(['/first', '/second']);
+  });
+
+  test('never runs actions in a dry run', async () => {
+    calls.length = 0;
+    const [outcome] = await applyRules(report, 'test-grant', { dryRun: true });
+    expect(outcome!.actions.map((action) => action.status)).toEqual(['dry_run', 'dry_run']);
+    expect(calls).toEqual([]);
+  });
+});
+
+describe('POST /api/rules/test', () => {
+  const app = Fastify();
+
+  beforeAll(async () => {
+    upsertMessage({ id: 'rules-mirror-1', subject: 'Weekly report', from: [{ email: 'bot@rules-test.example' }] }, 'test-grant');
+    upsertMessage({ id: 'rules-mirror-2', subject: 'Weekly report' }, 'test-grant');
+    // A row written by an older version, with a sender that has no address
+    db.prepare(`UPDATE messages SET from_json = '[{"name":"Bot"}]' WHERE id = 'rules-mirror-2'`).run();
+    await app.register(ruleRoutes);
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  test('dry-runs the rules against a mirrored message', async () => {
+    calls.length = 0;
+    const response = await app.inject({ method: 'POST', url: '/api/rules/test', payload: { message_id: 'rules-mirror-1' } });
+    expect(response.statusCode).toBe(200);
+    expect(response.json().matches.map((match: { rule: string }) => match.rule)).toEqual(['test-forward-reports']);
+    expect(calls).toEqual([]);
+  });
+
+  test('returns 400 for a mirrored message that is not a valid message object', async () => {
+    const response = await app.inject({ method: 'POST', url: '/api/rules/test', payload: { message_id: 'rules-mirror-2' } });
+    expect(response.statusCode).toBe(400);
+    expect(response.json().issues).toEqual(['from.0.email: Required']);
+  });
+
+  test('returns 404 for a message that is not mirrored', async () => {
+    const response = await app.inject({ method: 'POST', url: '/api/rules/test', payload: { message_id: 'rules-missing' } });
+    expect(response.statusCode).toBe(404);
+  });
+});
@@ -0,0 +1,462 @@
+/**
+ * Nylas Pub/Sub Integration - Inbox Rules
+ *
+ * Declarative rules evaluated for every message.created notification, from
+ * either the webhook or the Pub/Sub route. A rule matches on sender,
+ * recipient, subject, folder and attachment presence, and runs its actions
+ * in order: move to a folder, add a label, mark as read, send a templated
+ * auto-reply through the outbox, or call a webhook. In dry-run mode the
+ * actions are only logged. Actions that completed are recorded per
+ * notification, so a retry after a failure runs only the ones still to do.
+ *
+ * Rules are read from the JSON file named by RULES_FILE (default: rules.json), e.g.
+ *
+ *   [{ "name": "invoices", "match": { "from": "@billing.example.com", "subject": "invoice" },
+ *      "actions": [{ "type": "add_label", "label": "<label id>" }, { "type": "mark_read" }] }]
+ *
+ * @license MIT
+ * @copyright Copyright (c) 2025 Aemal Sayer
+ */
+
+import fs from 'fs';
+import axios from 'axios';
+import { z } from 'zod';
+import { config } from './config';
+import { db } from './database';
+import { signPayload } from './downstream-fanout';
+import { renderTemplate } from './email-templates';
+import { getGrant } from './grant-registry';
+import { getLogger } from './logger';
+import { composeMessage, type OriginalMessage } from './message-compose';
+import { dispatcher } from './notification-dispatcher';
+import type { MessageObject } from './notification-schemas';
+import { attemptDelivery, enqueueEmail } from './outbox';
+
+const RULES_FILE = config.rules.file;
+const REQUEST_TIMEOUT_MS = 10000;
+
+// Completed actions are remembered as long as notification IDs are
+const COMPLETED_RETENTION_MS = config.notifications.retentionHours * 60 * 60 * 1000;
+
+// Senders that never get an auto-reply
+const AUTOMATED_SENDER = /^(no-?reply|do-?not-?reply|mailer-daemon|postmaster)@/i;
+
+// One address, "@domain" or a list of either
+const addressPatterns = z
+  .union([z.string().min(1), z.array(z.string().min(1)).min(1)])
+  .transform((value) => (Array.isArray(value) ? value : [value]).map((pattern) => pattern.toLowerCase()));
+
+const matchSchema = z
+  .object({
+    from: addressPatterns.optional(),
+    to: addressPatterns.optional(), // Any of to, cc and bcc
+    subject: z
+      .string()
+      .min(1)
+      .refine((pattern) => {
+        try {
+          new RegExp(pattern);
+          return true;
+        } catch {
+          return false;
+        }
+      }, 'must be a valid regular expression')
+      .optional(),
+    folder: z.union([z.string().min(1), z.array(z.string().min(1)).min(1)]).optional(),
+    has_attachment: z.boolean().optional()
+  })
+  .strict();
+
+const actionSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('move_to_folder'), folder: z.string().min(1) }),
+  z.object({ type: z.literal('add_label'), label: z.string().min(1) }),
+  z.object({ type: z.literal('mark_read') }),
+  z.object({ type: z.literal('auto_reply'), template: z.string().min(1), variables: z.record(z.unknown()).optional() }),
+  z.object({ type: z.literal('webhook'), url: z.string().url(), secret: z.string().optional() })
+]);
+
+const ruleSchema = z.object({
+  name: z.string().min(1),
+  enabled: z.boolean().default(true),
+  dry_run: z.boolean().default(false), // Log the actions instead of running them
+  grants: z.array(z.string().min(1)).optional(), // Grant IDs the rule applies to (default: all)
+  match: matchSchema,
+  actions: z.array(actionSchema).min(1),
+  stop: z.boolean().default(false) // Skip later rules when this one matches
+});
+
+export type InboxRule = z.infer<typeof ruleSchema>;
+export type RuleAction = z.infer<typeof actionSchema>;
+
+export interface ActionResult {
+  type: RuleAction['type'];
+  status: 'done' | 'skipped' | 'failed' | 'dry_run';
+  detail: string;
+}
+
+export interface RuleOutcome {
+  rule: string;
+  dry_run: boolean;
+  actions: ActionResult[];
+}
+
+interface RuleStats {
+  matched: number;
+  failed_actions: number;
+  last_matched_at?: string;
+}
+
+db.exec(`
+  CREATE TABLE IF NOT EXISTS rule_auto_replies (
+    rule TEXT NOT NULL,
+    grant_id TEXT NOT NULL,
+    email TEXT NOT NULL,
+    sent_at INTEGER NOT NULL,
+    PRIMARY KEY (rule, grant_id, email)
+  )
+`);
+
+db.exec(`
+  CREATE TABLE IF NOT EXISTS rule_action_runs (
+    notification_id TEXT NOT NULL,
+    rule TEXT NOT NULL,
+    action_index INTEGER NOT NULL,
+    completed_at INTEGER NOT NULL,
+    PRIMARY KEY (notification_id, rule, action_index)
+  )
+`);
+
+const selectCompletedAction = db.prepare(
+  'SELECT 1 FROM rule_action_runs WHERE notification_id = $notification_id AND rule = $rule AND action_index = $action_index'
+);
+const insertCompletedAction = db.prepare(`
+  INSERT OR IGNORE INTO rule_action_runs (notification_id, rule, action_index, completed_at)
+  VALUES ($notification_id, $rule, $action_index, $now)
+`);
+const deleteExpiredActionRuns = db.prepare('DELETE FROM rule_action_runs WHERE completed_at < $cutoff');
+
+const selectLastAutoReply = db.prepare(
+  'SELECT sent_at FROM rule_auto_replies WHERE rule = $rule AND grant_id = $grant_id AND email = $email'
+);
+
+const upsertAutoReply = db.prepare(`
+  INSERT INTO rule_auto_replies (rule, grant_id, email, sent_at) VALUES ($rule, $grant_id, $email, $sent_at)
+  ON CONFLICT (rule, grant_id, email) DO UPDATE SET sent_at = excluded.sent_at
+`);
+
+function loadRules(): InboxRule[] {
+  if (!fs.existsSync(RULES_FILE)) {
+    return [];
+  }
+
+  const result = z.array(ruleSchema).safeParse(JSON.parse(fs.readFileSync(RULES_FILE, 'utf-8')));
+  if (!result.success) {
+    const problems = result.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`);
+    throw new Error(`Invalid rules in ${RULES_FILE}:\n   - ${problems.join('\n   - ')}`);
+  }
+  return result.data;
+}
+
+const rules = loadRules();
+const stats = new Map<string, RuleStats>();
+
+function getStats(name: string): RuleStats {
+  let entry = stats.get(name);
+  if (!entry) {
+    entry = { matched: 0, failed_actions: 0 };
+    stats.set(name, entry);
+  }
+  return entry;
+}
+
+// "ada@example.com" matches that address, "@example.com" the whole domain
+function matchesAddress(patterns: string[], emails: string[]): boolean {
+  return emails.some((email) =>
+    patterns.some((pattern) => (pattern.startsWith('@') ? email.endsWith(pattern) : email === pattern))
+  );
+}
+
+function addresses(...lists: (MessageObject['from'] | undefined)[]): string[] {
+  return lists.flatMap((list) => list ?? []).map((recipient) => recipient.email.toLowerCase());
+}
+
+/**
+ * Whether a message meets every condition of a rule (subjects match case-insensitively)
+ */
+export function ruleMatches(rule: InboxRule, message: MessageObject, grantId?: string): boolean {
+  const { match } = rule;
+  if (!rule.enabled) {
+    return false;
+  }
+  if (rule.grants && (!grantId || !rule.grants.includes(grantId))) {
+    return false;
+  }
+  if (match.from && !matchesAddress(match.from, addresses(message.from))) {
+    return false;
+  }
+  if (match.to && !matchesAddress(match.to, addresses(message.to, message.cc, message.bcc))) {
+    return false;
+  }
+  if (match.subject && !new RegExp(match.subject, 'i').test(message.subject ?? '')) {
+    return false;
+  }
+  if (match.folder) {
+    const folders = Array.isArray(match.folder) ? match.folder : [match.folder];
+    if (!folders.some((folder) => message.folders?.includes(folder))) {
+      return false;
+    }
+  }
+  if (match.has_attachment !== undefined && match.has_attachment !== (message.attachments?.length ?? 0) > 0) {
+    return false;
+  }
+  return true;
+}
+
+function describeAction(action: RuleAction): string {
+  switch (action.type) {
+    case 'move_to_folder':
+      return `move to folder ${action.folder}`;
+    case 'add_label':
+      return `add label ${action.label}`;
+    case 'mark_read':
+      return 'mark as read';
+    case 'auto_reply':
+      return `auto-reply with template "${action.template}"`;
+    case 'webhook':
+      return `call webhook ${action.url}`;
+  }
+}
+
+function describeError(error: unknown): string {
+  if (axios.isAxiosError(error) && error.response) {
+    return `HTTP ${error.response.status}: ${error.response.data?.error?.message || error.response.data?.message || error.message}`;
+  }
+  return error instanceof Error ? error.message : String(error);
+}
+
+async function updateMessage(grantId: string, messageId: string, changes: { folders?: string[]; unread?: boolean }) {
+  await axios.put(`${config.nylas.apiUri}/v3/grants/${grantId}/messages/${encodeURIComponent(messageId)}`, changes, {
+    headers: {
+      'Authorization': `Bearer ${config.nylas.apiKey}`,
+      'Content-Type': 'application/json',
+      'Accept': 'application/json'
+    }
+  });
+}
+
+async function sendAutoReply(
+  rule: InboxRule,
+  action: Extract<RuleAction, { type: 'auto_reply' }>,
+  message: MessageObject,
+  grantId: string
+): Promise<ActionResult> {
+  const sender = message.from?.[0];
+  const senderEmail = sender?.email.toLowerCase();
+  if (!senderEmail || AUTOMATED_SENDER.test(senderEmail) || senderEmail === getGrant(grantId)?.email?.toLowerCase()) {
+    return { type: action.type, status: 'skipped', detail: `not replying to ${senderEmail || 'an unknown sender'}` };
+  }
+
+  // At most one auto-reply per sender and rule within the cooldown
+  const last = selectLastAutoReply.get({ $rule: rule.name, $grant_id: grantId, $email: senderEmail }) as { sent_at: number } | null;
+  if (last && Date.now() - last.sent_at < config.rules.autoReplyCooldownMs) {
+    return { type: action.type, status: 'skipped', detail: `${senderEmail} was auto-replied to recently` };
+  }
+
+  const rendered = renderTemplate(action.template, {
+    ...action.variables,
+    sender: { name: sender!.name || senderEmail, email: senderEmail },
+    subject: message.subject ?? ''
+  });
+  const original: OriginalMessage = { ...message, grant_id: grantId };
+  const composed = await composeMessage(original, 'reply', rendered.body);
+  if (composed.to.length === 0) {
+    return { type: action.type, status: 'skipped', detail: 'no one to reply to' };
+  }
+
+  // The regular send path: stored in the outbox first, retried if Nylas is unavailable
+  const entry = enqueueEmail(grantId, {
+    to: composed.to,
+    subject: rendered.subject || composed.subject,
+    body: composed.body,
+    reply_to_message_id: message.id
+  }, []);
+  upsertAutoReply.run({ $rule: rule.name, $grant_id: grantId, $email: senderEmail, $sent_at: Date.now() });
+
+  const result = await attemptDelivery(entry.id);
+  if (result.error && result.entry.status === 'failed') {
+    throw result.error;
+  }
+  return { type: action.type, status: 'done', detail: `outbox entry ${entry.id} (${result.entry.status})` };
+}
+
+async function callWebhook(
+  rule: InboxRule,
+  action: Extract<RuleAction, { type: 'webhook' }>,
+  message: MessageObject,
+  grantId: string
+): Promise<ActionResult> {
+  const body = JSON.stringify({ rule: rule.name, grant_id: grantId, message, matched_at: new Date().toISOString() });
+  const timestamp = Math.floor(Date.now() / 1000).toString();
+  const response = await axios.post(action.url, body, {
+    timeout: REQUEST_TIMEOUT_MS,
+    headers: {
+      'Content-Type': 'application/json',
+      'X-Rule-Name': rule.name,
+      ...(action.secret && {
+        'X-Signature-Timestamp': timestamp,
+        'X-Signature-256': `sha256=${signPayload(action.secret, timestamp, body)}`
+      })
+    }
+  });
+  return { type: action.type, status: 'done', detail: `HTTP ${response.status}` };
+}
+
+async function runAction(
+  rule: InboxRule,
+  action: RuleAction,
+  message: MessageObject,
+  grantId: string,
+  state: { folders: string[] }
+): Promise<ActionResult> {
+  switch (action.type) {
+    case 'move_to_folder':
+      state.folders = [action.folder];
+      await updateMessage(grantId, message.id, { folders: state.folders });
+      return { type: action.type, status: 'done', detail: `folders: ${state.folders.join(', ')}` };
+    case 'add_label':
+      if (state.folders.includes(action.label)) {
+        return { type: action.type, status: 'skipped', detail: `already labelled ${action.label}` };
+      }
+      state.folders = [...state.folders, action.label];
+      await updateMessage(grantId, message.id, { folders: state.folders });
+      return { type: action.type, status: 'done', detail: `folders: ${state.folders.join(', ')}` };
+    case 'mark_read':
+      if (message.unread === false) {
+        return { type: action.type, status: 'skipped', detail: 'already read' };
+      }
+      await updateMessage(grantId, message.id, { unread: false });
+      return { type: action.type, status: 'done', detail: 'marked as read' };
+    case 'auto_reply':
+      return sendAutoReply(rule, action, message, grantId);
+    case 'webhook':
+      return callWebhook(rule, action, message, grantId);
+  }
+}
+
+/**
+ * Thrown by the notification handler when rule actions failed, so the
+ * notification is retried and kept as a dead letter like any other failure
+ */
+export class RuleActionError extends Error {
+  constructor(public readonly failures: string[]) {
+    super(`${failures.length} inbox rule action(s) failed: ${failures.join('; ')}`);
+    this.name = 'RuleActionError';
+  }
+}
+
+/**
+ * The folder change a completed folder action made, so later actions see it on a retry
+ */
+function replayFolderState(action: RuleAction, state: { folders: string[] }): void {
+  if (action.type === 'move_to_folder') {
+    state.folders = [action.folder];
+  } else if (action.type === 'add_label' && !state.folders.includes(action.label)) {
+    state.folders = [...state.folders, action.label];
+  }
+}
+
+/**
+ * Evaluate the rules in order against a message and run (or, in dry-run
+ * mode, log) the actions of every matching rule. A failed action is logged
+ * and does not stop the remaining ones. With a `notificationId`, actions that
+ * completed for that notification before are skipped.
+ */
+export async function applyRules(
+  message: MessageObject,
+  grantId: string,
+  options: { dryRun?: boolean; notificationId?: string } = {}
+): Promise<RuleOutcome[]> {
+  const outcomes: RuleOutcome[] = [];
+  const state = { folders: message.folders ?? [] };
+  const { notificationId } = options;
+  if (notificationId) {
+    deleteExpiredActionRuns.run({ $cutoff: Date.now() - COMPLETED_RETENTION_MS });
+  }
+
+  for (const rule of rules) {
+    if (!ruleMatches(rule, message, grantId)) {
+      continue;
+    }
+
+    const dryRun = options.dryRun || config.rules.dryRun || rule.dry_run;
+    const entry = getStats(rule.name);
+    // Test runs through /api/rules/test are not counted
+    if (!options.dryRun) {
+      entry.matched++;
+      entry.last_matched_at = new Date().toISOString();
+    }
+
+    const results: ActionResult[] = [];
+    for (const [index, action] of rule.actions.entries()) {
+      if (dryRun) {
+        getLogger().info(`🧪 [dry run] Rule "${rule.name}" would ${describeAction(action)} for message ${message.id}`);
+        results.push({ type: action.type, status: 'dry_run', detail: describeAction(action) });
+        continue;
+      }
+      const run = notificationId ? { $notification_id: notificationId, $rule: rule.name, $action_index: index } : undefined;
+      if (run && selectCompletedAction.get(run)) {
+        replayFolderState(action, state);
+        results.push({ type: action.type, status: 'skipped', detail: 'done in an earlier attempt' });
+        continue;
+      }
+      try {
+        const result = await runAction(rule, action, message, grantId, state);
+        if (run) {
+          insertCompletedAction.run({ ...run, $now: Date.now() });
+        }
+        getLogger().info(`📋 Rule "${rule.name}": ${describeAction(action)} for message ${message.id} - ${result.status} (${result.detail})`);
+        results.push(result);
+      } catch (error) {
+        entry.failed_actions++;
+        getLogger().error(`❌ Rule "${rule.name}" could not ${describeAction(action)} for message ${message.id}: ${describeError(error)}`);
+        results.push({ type: action.type, status: 'failed', detail: describeError(error) });
+      }
+    }
+
+    outcomes.push({ rule: rule.name, dry_run: dryRun, actions: results });
+    if (rule.stop) {
+      break;
+    }
+  }
+  return outcomes;
+}
+
+/**
+ * Loaded rules (without webhook secrets) and their counters
+ */
+export function getRuleStatus() {
+  return rules.map((rule) => ({
+    ...rule,
+    actions: rule.actions.map((action) => (action.type === 'webhook' ? { type: action.type, url: action.url } : action)),
+    ...getStats(rule.name)
+  }));
+}
+
+if (rules.length > 0) {
+  getLogger().info(`Evaluating ${rules.length} inbox rule(s) for new messages${config.rules.dryRun ? ' (dry run)' : ''}`);
+  // A failed action fails the handler; the retry runs only the actions that did not complete
+  dispatcher.on('message.created', async (notification) => {
+    const grantId = notification.data.grant_id ?? notification.data.object.grant_id;
+    if (!grantId) {
+      getLogger().warn(`⚠️ Skipping inbox rules for message ${notification.data.object.id}: no grant ID`);
+      return;
+    }
+    const outcomes = await applyRules(notification.data.object, grantId, { notificationId: notification.id });
+    const failures = outcomes.flatMap(({ rule, actions }) =>
+      actions.filter((action) => action.status === 'failed').map((action) => `"${rule}" ${action.type}: ${action.detail}`)
+    );
+    if (failures.length > 0) {
+      throw new RuleActionError(failures);
+    }
+  }, 'inbox-rules');
+}
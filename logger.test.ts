@@ -0,0 +1,59 @@
+import { describe, expect, test } from 'bun:test';
+import { redact, redactUrl } from './logger';
+
+describe('redact', () => {
+  test('removes credential headers, signatures and secrets', () => {
+    expect(
+      redact({
+        headers: { Authorization: 'Bearer key', 'X-Nylas-Signature': 'abc123', 'content-type': 'application/json' },
+        webhook: { secret: 'shh', secret_number: 2 }
+      })
+    ).toEqual({
+      headers: { Authorization: '[redacted]', 'X-Nylas-Signature': '[redacted]', 'content-type': 'application/json' },
+      webhook: { secret: '[redacted]', secret_number: 2 }
+    });
+  });
+
+  test('masks email addresses, including inside text', () => {
+    expect(redact({ from: [{ email: 'ada@example.com' }], note: 'Reply to grace.hopper@navy.mil today' })).toEqual({
+      from: [{ email: 'a***@example.com' }],
+      note: 'Reply to g***@navy.mil today'
+    });
+  });
+
+  test('replaces message bodies with their length', () => {
+    expect(redact({ body: '<p>Hello</p>', snippet: 'Hello', subject: 'Hi' })).toEqual({
+      body: '[redacted 12 chars]',
+      snippet: '[redacted 5 chars]',
+      subject: 'Hi'
+    });
+  });
+
+  test('keeps only the useful parts of an error', () => {
+    const error = Object.assign(new Error('Request failed'), {
+      config: { headers: { Authorization: 'Bearer key' } },
+      response: { status: 401, data: { error: 'unauthorized' } }
+    });
+    const redacted = redact(error) as Record<string, unknown>;
+    expect(redacted).toMatchObject({ type: 'Error', message: 'Request failed', status: 401, response: { error: 'unauthorized' } });
+    expect(JSON.stringify(redacted)).not.toContain('Bearer key');
+  });
+
+  test('does not change the value it is given', () => {
+    const value = { token: 'abc' };
+    redact(value);
+    expect(value).toEqual({ token: 'abc' });
+  });
+});
+
+describe('redactUrl', () => {
+  test('redacts OAuth codes and state in the query string', () => {
+    expect(redactUrl('/auth/nylas/callback?code=secret-code&state=xyz&provider=google')).toBe(
+      '/auth/nylas/callback?code=[redacted]&state=[redacted]&provider=google'
+    );
+  });
+
+  test('leaves URLs without a query string alone', () => {
+    expect(redactUrl('/webhook/nylas')).toBe('/webhook/nylas');
+  });
+});
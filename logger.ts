@@ -0,0 +1,169 @@
+/**
+ * Nylas Pub/Sub Integration - Logging
+ *
+ * Structured JSON logging shared by the Fastify server and the pull worker.
+ * Every entry written while handling a request carries its `request_id`, and
+ * entries written while processing a notification carry its `notification_id`,
+ * so one delivery can be followed through the handlers. Credential headers,
+ * signatures, email addresses and message bodies are redacted before anything
+ * is written (LOG_REDACT).
+ *
+ * @license MIT
+ * @copyright Copyright (c) 2025 Aemal Sayer
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import type { FastifyBaseLogger } from 'fastify';
+import pino, { type Logger } from 'pino';
+import { config } from './config';
+
+const REDACTED = '[redacted]';
+
+// Headers that carry credentials
+const CREDENTIAL_HEADERS = new Set([
+  'authorization',
+  'proxy-authorization',
+  'cookie',
+  'set-cookie',
+  'x-api-key',
+  ...config.logging.headers
+]);
+
+// Keys whose values are signatures, secrets or tokens
+const SIGNATURE_KEYS = new Set([
+  'x-nylas-signature',
+  'signature',
+  'secret',
+  'token',
+  'api_key',
+  'access_token',
+  'refresh_token',
+  'id_token',
+  'code_verifier'
+]);
+
+// Keys whose values are message content
+const BODY_KEYS = new Set(['body', 'body_preview', 'html', 'snippet', 'raw_mime']);
+
+// Query parameters that carry one-time codes (OAuth callback)
+const SECRET_QUERY_PARAMS = ['code', 'state', 'token', 'access_token'];
+
+const EMAIL_PATTERN = /([A-Za-z0-9._%+-])[A-Za-z0-9._%+-]*@([A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)*\.[A-Za-z]{2,})/g;
+
+const MAX_DEPTH = 8;
+
+/**
+ * Keep the first character and the domain, e.g. a***@example.com
+ */
+function maskEmails(text: string): string {
+  return text.replace(EMAIL_PATTERN, '$1***@$2');
+}
+
+function isPlainObject(value: object): value is Record<string, unknown> {
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
+
+/**
+ * The parts of an error worth logging; axios errors would otherwise include
+ * the request config with its Authorization header
+ */
+function describeError(error: Error): Record<string, unknown> {
+  const details = error as Error & { code?: unknown; response?: { status?: number; data?: unknown } };
+  return {
+    type: error.name,
+    message: error.message,
+    stack: error.stack,
+    code: details.code,
+    status: details.response?.status,
+    response: details.response?.data
+  };
+}
+
+/**
+ * A copy of a value with the configured categories redacted. Only plain
+ * objects, arrays and errors are walked; anything else is left to pino's serializers.
+ */
+export function redact(value: unknown, key?: string, depth = 0): unknown {
+  const { redact: categories } = config.logging;
+  const name = key?.toLowerCase();
+
+  if (name !== undefined) {
+    if (categories.headers && CREDENTIAL_HEADERS.has(name)) return REDACTED;
+    if (categories.signatures && SIGNATURE_KEYS.has(name)) return REDACTED;
+    if (categories.bodies && BODY_KEYS.has(name) && typeof value === 'string') {
+      return `[redacted ${value.length} chars]`;
+    }
+  }
+
+  if (typeof value === 'string') {
+    return categories.emails ? maskEmails(value) : value;
+  }
+  if (!value || typeof value !== 'object' || depth >= MAX_DEPTH) {
+    return value;
+  }
+  if (value instanceof Error) {
+    return redact(describeError(value), key, depth + 1);
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => redact(item, undefined, depth + 1));
+  }
+  if (!isPlainObject(value)) {
+    return value;
+  }
+  return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, redact(v, k, depth + 1)]));
+}
+
+export function redactUrl(url: string): string {
+  if (!config.logging.redact.signatures || !url.includes('?')) {
+    return url;
+  }
+  const [path, query = ''] = url.split('?', 2);
+  const params = query.split('&').map((pair) => {
+    const name = decodeURIComponent(pair.split('=', 1)[0]!);
+    return SECRET_QUERY_PARAMS.includes(name) ? `${name}=${REDACTED}` : pair;
+  });
+  return `${path}?${params.join('&')}`;
+}
+
+export const logger: Logger = pino({
+  level: config.logging.level,
+  base: { profile: config.profile },
+  timestamp: pino.stdTimeFunctions.isoTime,
+  formatters: {
+    level: (label) => ({ level: label })
+  },
+  serializers: {
+    // The request line only; headers are logged explicitly at debug level
+    req: (request: { id?: string; method?: string; url?: string; ip?: string }) => ({
+      method: request.method,
+      url: redactUrl(request.url ?? ''),
+      remote_address: request.ip
+    }),
+    res: (reply: { statusCode?: number }) => ({ status_code: reply.statusCode })
+  },
+  hooks: {
+    // Redact every argument, including the message text
+    logMethod(args, method) {
+      const redacted = (args as unknown[]).map((arg) => (arg instanceof Error ? { err: redact(arg) } : redact(arg)));
+      return method.apply(this, redacted as Parameters<typeof method>);
+    }
+  }
+});
+
+// request.log and its children
+const context = new AsyncLocalStorage<FastifyBaseLogger>();
+
+/**
+ * The logger for the current request or notification, or the base logger
+ */
+export function getLogger(): FastifyBaseLogger {
+  return context.getStore() ?? logger;
+}
+
+/**
+ * Run `fn` with `log` as the current logger (see getLogger)
+ */
+export function withLogger<T>(log: FastifyBaseLogger, fn: () => T): T {
+  return context.run(log, fn);
+}
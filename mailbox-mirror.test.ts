@@ -0,0 +1,50 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+import Fastify from 'fastify';
+import { listMessages, listThreads, upsertMessage } from './mailbox-mirror';
+import { mailboxRoutes } from './mailbox-routes';
+
+const app = Fastify();
+const GRANT = 'mirror-grant';
+
+beforeAll(async () => {
+  for (let index = 0; index < 3; index++) {
+    upsertMessage({ id: `mirror-message-${index}`, thread_id: 'mirror-thread', subject: 'Report', date: 1000 + index, folders: ['INBOX'] }, GRANT);
+  }
+  await app.register(mailboxRoutes);
+});
+
+afterAll(async () => {
+  await app.close();
+});
+
+describe('listMessages', () => {
+  test('lists the newest messages first', () => {
+    expect(listMessages({ grant_id: GRANT, limit: 2 }).map((message) => message.id)).toEqual(['mirror-message-2', 'mirror-message-1']);
+  });
+
+  test.each([
+    ['NaN', { limit: NaN, offset: NaN }],
+    ['infinite', { limit: Infinity, offset: Infinity }],
+    ['negative', { limit: -1, offset: -10 }]
+  ])('clamps %s paging values', (_, paging) => {
+    const messages = listMessages({ grant_id: GRANT, ...paging });
+    expect(messages.length).toBeGreaterThan(0);
+    expect(messages.length).toBeLessThanOrEqual(3);
+  });
+
+  test('groups messages into their thread', () => {
+    expect(listThreads({ grant_id: GRANT, offset: Infinity })).toHaveLength(1);
+  });
+});
+
+describe('GET /api/messages', () => {
+  test('pages through the mirror', async () => {
+    const response = await app.inject({ method: 'GET', url: `/api/messages?grant_id=${GRANT}&limit=1&offset=1` });
+    expect(response.statusCode).toBe(200);
+    expect(response.json().data.map((message: { id: string }) => message.id)).toEqual(['mirror-message-1']);
+  });
+
+  test.each(['/api/messages?offset=1e999', '/api/messages?limit=abc', '/api/threads?limit=-1'])('rejects %s with 400', async (url) => {
+    expect((await app.inject({ method: 'GET', url })).statusCode).toBe(400);
+  });
+});
@@ -0,0 +1,398 @@
+/**
+ * Nylas Pub/Sub Integration - Local Mailbox Mirror
+ *
+ * Keeps a local copy of messages and threads, built from message.created and
+ * message.updated notifications, so the UI can read mail without calling
+ * Nylas on every page load.
+ *
+ * @license MIT
+ * @copyright Copyright (c) 2025 Aemal Sayer
+ */
+
+import { db } from './database';
+import type { MessageObject } from './notification-schemas';
+import type { EmailRecipient } from './types';
+
+db.exec(`
+  CREATE TABLE IF NOT EXISTS messages (
+    id TEXT PRIMARY KEY,
+    grant_id TEXT,
+    thread_id TEXT,
+    subject TEXT,
+    from_json TEXT NOT NULL DEFAULT '[]',
+    to_json TEXT NOT NULL DEFAULT '[]',
+    cc_json TEXT NOT NULL DEFAULT '[]',
+    bcc_json TEXT NOT NULL DEFAULT '[]',
+    snippet TEXT,
+    body TEXT,
+    date INTEGER,
+    unread INTEGER NOT NULL DEFAULT 0,
+    starred INTEGER NOT NULL DEFAULT 0,
+    folders_json TEXT NOT NULL DEFAULT '[]',
+    updated_at INTEGER NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS messages_thread ON messages (thread_id);
+  CREATE INDEX IF NOT EXISTS messages_date ON messages (date);
+
+  CREATE TABLE IF NOT EXISTS threads (
+    id TEXT PRIMARY KEY,
+    grant_id TEXT,
+    subject TEXT,
+    snippet TEXT,
+    message_count INTEGER NOT NULL,
+    unread_count INTEGER NOT NULL,
+    participants_json TEXT NOT NULL,
+    folders_json TEXT NOT NULL,
+    latest_message_date INTEGER,
+    earliest_message_date INTEGER
+  );
+`);
+
+// Message fields as stored in the mirror
+export interface MirroredMessage {
+  id: string;
+  grant_id: string | null;
+  thread_id: string | null;
+  subject: string | null;
+  from: EmailRecipient[];
+  to: EmailRecipient[];
+  cc: EmailRecipient[];
+  bcc: EmailRecipient[];
+  snippet: string | null;
+  body: string | null;
+  date: number | null;
+  unread: boolean;
+  starred: boolean;
+  folders: string[];
+  updated_at: number;
+}
+
+export interface MirroredThread {
+  id: string;
+  grant_id: string | null;
+  subject: string | null;
+  snippet: string | null;
+  message_count: number;
+  unread_count: number;
+  participants: EmailRecipient[];
+  folders: string[];
+  latest_message_date: number | null;
+  earliest_message_date: number | null;
+}
+
+export interface MessageQuery {
+  grant_id?: string;
+  thread_id?: string;
+  folder?: string;
+  unread?: boolean;
+  limit?: number;
+  offset?: number;
+}
+
+interface MessageRow {
+  id: string;
+  grant_id: string | null;
+  thread_id: string | null;
+  subject: string | null;
+  from_json: string;
+  to_json: string;
+  cc_json: string;
+  bcc_json: string;
+  snippet: string | null;
+  body: string | null;
+  date: number | null;
+  unread: number;
+  starred: number;
+  folders_json: string;
+  updated_at: number;
+}
+
+interface ThreadRow {
+  id: string;
+  grant_id: string | null;
+  subject: string | null;
+  snippet: string | null;
+  message_count: number;
+  unread_count: number;
+  participants_json: string;
+  folders_json: string;
+  latest_message_date: number | null;
+  earliest_message_date: number | null;
+}
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+
+/**
+ * LIMIT and OFFSET for a list query. SQLite treats a negative LIMIT as no limit,
+ * so both are clamped; missing, NaN or infinite values fall back to the defaults.
+ */
+function pageParams(query: { limit?: number; offset?: number }): { $limit: number; $offset: number } {
+  const limit = Number.isFinite(query.limit) ? Math.trunc(query.limit!) : DEFAULT_LIMIT;
+  const offset = Number.isFinite(query.offset) ? Math.trunc(query.offset!) : 0;
+  return {
+    $limit: Math.min(Math.max(limit, 1), MAX_LIMIT),
+    $offset: Math.max(offset, 0)
+  };
+}
+
+const selectMessageRow = db.prepare('SELECT * FROM messages WHERE id = $id');
+const selectThreadRow = db.prepare('SELECT * FROM threads WHERE id = $id');
+const selectThreadMessageRows = db.prepare('SELECT * FROM messages WHERE thread_id = $thread_id ORDER BY date ASC');
+const deleteThreadRow = db.prepare('DELETE FROM threads WHERE id = $id');
+
+const upsertMessageRow = db.prepare(`
+  INSERT INTO messages (
+    id, grant_id, thread_id, subject, from_json, to_json, cc_json, bcc_json,
+    snippet, body, date, unread, starred, folders_json, updated_at
+  ) VALUES (
+    $id, $grant_id, $thread_id, $subject, $from_json, $to_json, $cc_json, $bcc_json,
+    $snippet, $body, $date, $unread, $starred, $folders_json, $updated_at
+  )
+  ON CONFLICT (id) DO UPDATE SET
+    grant_id = excluded.grant_id,
+    thread_id = excluded.thread_id,
+    subject = excluded.subject,
+    from_json = excluded.from_json,
+    to_json = excluded.to_json,
+    cc_json = excluded.cc_json,
+    bcc_json = excluded.bcc_json,
+    snippet = excluded.snippet,
+    body = excluded.body,
+    date = excluded.date,
+    unread = excluded.unread,
+    starred = excluded.starred,
+    folders_json = excluded.folders_json,
+    updated_at = excluded.updated_at
+`);
+
+const upsertThreadRow = db.prepare(`
+  INSERT INTO threads (
+    id, grant_id, subject, snippet, message_count, unread_count,
+    participants_json, folders_json, latest_message_date, earliest_message_date
+  ) VALUES (
+    $id, $grant_id, $subject, $snippet, $message_count, $unread_count,
+    $participants_json, $folders_json, $latest_message_date, $earliest_message_date
+  )
+  ON CONFLICT (id) DO UPDATE SET
+    grant_id = excluded.grant_id,
+    subject = excluded.subject,
+    snippet = excluded.snippet,
+    message_count = excluded.message_count,
+    unread_count = excluded.unread_count,
+    participants_json = excluded.participants_json,
+    folders_json = excluded.folders_json,
+    latest_message_date = excluded.latest_message_date,
+    earliest_message_date = excluded.earliest_message_date
+`);
+
+function toMessage(row: MessageRow): MirroredMessage {
+  return {
+    id: row.id,
+    grant_id: row.grant_id,
+    thread_id: row.thread_id,
+    subject: row.subject,
+    from: JSON.parse(row.from_json),
+    to: JSON.parse(row.to_json),
+    cc: JSON.parse(row.cc_json),
+    bcc: JSON.parse(row.bcc_json),
+    snippet: row.snippet,
+    body: row.body,
+    date: row.date,
+    unread: row.unread === 1,
+    starred: row.starred === 1,
+    folders: JSON.parse(row.folders_json),
+    updated_at: row.updated_at
+  };
+}
+
+function toThread(row: ThreadRow): MirroredThread {
+  return {
+    id: row.id,
+    grant_id: row.grant_id,
+    subject: row.subject,
+    snippet: row.snippet,
+    message_count: row.message_count,
+    unread_count: row.unread_count,
+    participants: JSON.parse(row.participants_json),
+    folders: JSON.parse(row.folders_json),
+    latest_message_date: row.latest_message_date,
+    earliest_message_date: row.earliest_message_date
+  };
+}
+
+/**
+ * Recompute a thread's summary from the messages currently in it.
+ * Threads with no remaining messages are removed.
+ */
+function refreshThread(threadId: string): void {
+  const messages = (selectThreadMessageRows.all({ $thread_id: threadId }) as MessageRow[]).map(toMessage);
+
+  if (messages.length === 0) {
+    deleteThreadRow.run({ $id: threadId });
+    return;
+  }
+
+  const participants = new Map<string, EmailRecipient>();
+  const folders = new Set<string>();
+  for (const message of messages) {
+    for (const recipient of [...message.from, ...message.to, ...message.cc]) {
+      if (!participants.has(recipient.email)) {
+        participants.set(recipient.email, recipient);
+      }
+    }
+    message.folders.forEach((folder) => folders.add(folder));
+  }
+
+  const first = messages[0]!;
+  const latest = messages[messages.length - 1]!;
+  upsertThreadRow.run({
+    $id: threadId,
+    $grant_id: latest.grant_id,
+    $subject: first.subject,
+    $snippet: latest.snippet,
+    $message_count: messages.length,
+    $unread_count: messages.filter((m) => m.unread).length,
+    $participants_json: JSON.stringify([...participants.values()]),
+    $folders_json: JSON.stringify([...folders]),
+    $latest_message_date: latest.date,
+    $earliest_message_date: first.date
+  });
+}
+
+/**
+ * Insert or update a message from a notification payload.
+ * Fields missing from the payload (e.g. the body of a truncated notification)
+ * keep their previously mirrored values.
+ */
+export const upsertMessage = db.transaction((object: MessageObject, grantId?: string): MirroredMessage => {
+  const existingRow = selectMessageRow.get({ $id: object.id }) as MessageRow | null;
+  const existing = existingRow ? toMessage(existingRow) : null;
+  const pick = <T>(value: T | undefined, fallback: T): T => (value === undefined ? fallback : value);
+
+  const message: MirroredMessage = {
+    id: object.id,
+    grant_id: pick(object.grant_id ?? grantId, existing?.grant_id ?? null),
+    thread_id: pick(object.thread_id, existing?.thread_id ?? null),
+    subject: pick(object.subject, existing?.subject ?? null),
+    from: pick(object.from, existing?.from ?? []),
+    to: pick(object.to, existing?.to ?? []),
+    cc: pick(object.cc, existing?.cc ?? []),
+    bcc: pick(object.bcc, existing?.bcc ?? []),
+    snippet: pick(object.snippet, existing?.snippet ?? null),
+    body: pick(object.body, existing?.body ?? null),
+    date: pick(object.date, existing?.date ?? null),
+    unread: pick(object.unread, existing?.unread ?? false),
+    starred: pick(object.starred, existing?.starred ?? false),
+    folders: pick(object.folders, existing?.folders ?? []),
+    updated_at: Date.now()
+  };
+
+  upsertMessageRow.run({
+    $id: message.id,
+    $grant_id: message.grant_id,
+    $thread_id: message.thread_id,
+    $subject: message.subject,
+    $from_json: JSON.stringify(message.from),
+    $to_json: JSON.stringify(message.to),
+    $cc_json: JSON.stringify(message.cc),
+    $bcc_json: JSON.stringify(message.bcc),
+    $snippet: message.snippet,
+    $body: message.body,
+    $date: message.date,
+    $unread: message.unread ? 1 : 0,
+    $starred: message.starred ? 1 : 0,
+    $folders_json: JSON.stringify(message.folders),
+    $updated_at: message.updated_at
+  });
+
+  // A message can move between threads; refresh both the old and the new one
+  if (existing?.thread_id && existing.thread_id !== message.thread_id) {
+    refreshThread(existing.thread_id);
+  }
+  if (message.thread_id) {
+    refreshThread(message.thread_id);
+  }
+
+  return message;
+});
+
+export function getMessage(id: string): MirroredMessage | null {
+  const row = selectMessageRow.get({ $id: id }) as MessageRow | null;
+  return row ? toMessage(row) : null;
+}
+
+/**
+ * List mirrored messages, newest first.
+ */
+export function listMessages(query: MessageQuery = {}): MirroredMessage[] {
+  const conditions: string[] = [];
+  const params: Record<string, string | number> = {};
+
+  if (query.grant_id) {
+    conditions.push('grant_id = $grant_id');
+    params.$grant_id = query.grant_id;
+  }
+  if (query.thread_id) {
+    conditions.push('thread_id = $thread_id');
+    params.$thread_id = query.thread_id;
+  }
+  if (query.folder) {
+    conditions.push('EXISTS (SELECT 1 FROM json_each(messages.folders_json) WHERE value = $folder)');
+    params.$folder = query.folder;
+  }
+  if (query.unread !== undefined) {
+    conditions.push('unread = $unread');
+    params.$unread = query.unread ? 1 : 0;
+  }
+
+  Object.assign(params, pageParams(query));
+
+  const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+  const rows = db
+    .prepare(`SELECT * FROM messages ${where} ORDER BY date DESC LIMIT $limit OFFSET $offset`)
+    .all(params) as MessageRow[];
+
+  return rows.map(toMessage);
+}
+
+/**
+ * Get a thread summary together with its messages (oldest first).
+ */
+export function getThread(id: string): (MirroredThread & { messages: MirroredMessage[] }) | null {
+  const row = selectThreadRow.get({ $id: id }) as ThreadRow | null;
+  if (!row) {
+    return null;
+  }
+  const messages = (selectThreadMessageRows.all({ $thread_id: id }) as MessageRow[]).map(toMessage);
+  return { ...toThread(row), messages };
+}
+
+/**
+ * List thread summaries, most recently active first.
+ */
+export function listThreads(query: Omit<MessageQuery, 'thread_id'> = {}): MirroredThread[] {
+  const conditions: string[] = [];
+  const params: Record<string, string | number> = {};
+
+  if (query.grant_id) {
+    conditions.push('grant_id = $grant_id');
+    params.$grant_id = query.grant_id;
+  }
+  if (query.folder) {
+    conditions.push('EXISTS (SELECT 1 FROM json_each(threads.folders_json) WHERE value = $folder)');
+    params.$folder = query.folder;
+  }
+  if (query.unread !== undefined) {
+    conditions.push(query.unread ? 'unread_count > 0' : 'unread_count = 0');
+  }
+
+  Object.assign(params, pageParams(query));
+
+  const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+  const rows = db
+    .prepare(`SELECT * FROM threads ${where} ORDER BY latest_message_date DESC LIMIT $limit OFFSET $offset`)
+    .all(params) as ThreadRow[];
+
+  return rows.map(toThread);
+}
@@ -0,0 +1,85 @@
+/**
+ * Nylas Pub/Sub Integration - Mailbox Mirror Routes
+ * 
+ * Read-only query routes served from the local mailbox mirror.
+ * 
+ * @license MIT
+ * @copyright Copyright (c) 2025 Aemal Sayer
+ */
+
+import type { FastifyInstance } from 'fastify';
+import { getMessage, getThread, listMessages, listThreads, type MessageQuery } from './mailbox-mirror';
+
+// Query string accepted by the list routes
+interface MailboxQuerystring {
+  grant_id?: string;
+  thread_id?: string;
+  folder?: string;
+  unread?: string;
+  limit?: string;
+  offset?: string;
+}
+
+/**
+ * A non-negative integer from a query parameter
+ */
+function toInteger(value: string | undefined): number | undefined | null {
+  if (value === undefined || value === '') {
+    return undefined;
+  }
+  return /^\d+$/.test(value) ? Number(value) : null;
+}
+
+function parseQuery(query: MailboxQuerystring): MessageQuery | string {
+  const limit = toInteger(query.limit);
+  const offset = toInteger(query.offset);
+  if (limit === null || offset === null) {
+    return '"limit" and "offset" must be non-negative integers';
+  }
+  return {
+    grant_id: query.grant_id,
+    thread_id: query.thread_id,
+    folder: query.folder,
+    unread: query.unread === undefined ? undefined : query.unread === 'true',
+    limit,
+    offset
+  };
+}
+
+export async function mailboxRoutes(fastify: FastifyInstance) {
+  // List messages, e.g. /api/messages?unread=true&folder=INBOX
+  fastify.get<{ Querystring: MailboxQuerystring }>('/api/messages', async (request, reply) => {
+    const query = parseQuery(request.query);
+    if (typeof query === 'string') {
+      return reply.code(400).send({ error: 'Invalid request', message: query });
+    }
+    const messages = listMessages(query);
+    return { data: messages, count: messages.length };
+  });
+
+  fastify.get<{ Params: { id: string } }>('/api/messages/:id', async (request, reply) => {
+    const message = getMessage(request.params.id);
+    if (!message) {
+      return reply.code(404).send({ error: 'Message not found' });
+    }
+    return message;
+  });
+
+  fastify.get<{ Querystring: MailboxQuerystring }>('/api/threads', async (request, reply) => {
+    const query = parseQuery(request.query);
+    if (typeof query === 'string') {
+      return reply.code(400).send({ error: 'Invalid request', message: query });
+    }
+    const threads = listThreads(query);
+    return { data: threads, count: threads.length };
+  });
+
+  // Thread summary with its messages
+  fastify.get<{ Params: { id: string } }>('/api/threads/:id', async (request, reply) => {
+    const thread = getThread(request.params.id);
+    if (!thread) {
+      return reply.code(404).send({ error: 'Thread not found' });
+    }
+    return thread;
+  });
+}
@@ -0,0 +1,83 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+import { getGrant, recordGrant } from './grant-registry';
+import { composeMessage, type OriginalMessage } from './message-compose';
+
+// Stand-in for the Nylas grant lookup
+let server: ReturnType<typeof Bun.serve>;
+
+beforeAll(() => {
+  recordGrant({ grant_id: 'compose-grant', email: 'Me@Example.com' }, 'valid');
+  server = Bun.serve({
+    port: 3199,
+    fetch() {
+      return Response.json({ data: { email: 'lookup@example.com', provider: 'google' } });
+    }
+  });
+});
+
+afterAll(() => {
+  server.stop(true);
+});
+
+const original: OriginalMessage = {
+  id: 'original-1',
+  grant_id: 'compose-grant',
+  subject: 'Budget <draft>',
+  from: [{ name: 'Ada', email: 'ada@example.com' }],
+  to: [{ email: 'me@example.com' }, { name: 'Grace', email: 'grace@example.com' }],
+  cc: [{ email: 'GRACE@example.com' }, { email: 'finance@example.com' }],
+  date: Date.UTC(2025, 4, 1, 9, 30) / 1000,
+  body: '<p>Numbers attached</p>'
+};
+
+describe('composeMessage', () => {
+  test('replies to the sender and quotes the original', async () => {
+    const reply = await composeMessage(original, 'reply', '<p>Thanks</p>');
+    expect(reply.subject).toBe('Re: Budget <draft>');
+    expect(reply.to).toEqual([{ name: 'Ada', email: 'ada@example.com' }]);
+    expect(reply.cc).toEqual([]);
+    expect(reply.reply_to_message_id).toBe('original-1');
+    expect(reply.body).toStartWith('<p>Thanks</p><br><br><div class="quote">On Thu, 01 May 2025 09:30:00 GMT, Ada &lt;ada@example.com&gt; wrote:');
+    expect(reply.body).toContain('<blockquote style="margin:0 0 0 .8ex;border-left:1px solid #ccc;padding-left:1ex"><p>Numbers attached</p></blockquote>');
+  });
+
+  test('replies to Reply-To and keeps an existing prefix', async () => {
+    const reply = await composeMessage(
+      { ...original, subject: 'RE: Budget', reply_to: [{ email: 'team@example.com' }] },
+      'reply'
+    );
+    expect(reply.subject).toBe('RE: Budget');
+    expect(reply.to).toEqual([{ email: 'team@example.com' }]);
+  });
+
+  test('copies everyone else on reply-all, once each and without our own address', async () => {
+    const reply = await composeMessage(original, 'reply-all');
+    expect(reply.to.map((recipient) => recipient.email)).toEqual(['ada@example.com']);
+    expect(reply.cc.map((recipient) => recipient.email)).toEqual(['grace@example.com', 'finance@example.com']);
+  });
+
+  test('replies to the recipients of our own message', async () => {
+    const sent = { ...original, from: [{ email: 'me@example.com' }], to: [{ email: 'ada@example.com' }] };
+    const reply = await composeMessage(sent, 'reply-all');
+    expect(reply.to).toEqual([{ email: 'ada@example.com' }]);
+    expect(reply.cc.map((recipient) => recipient.email)).toEqual(['GRACE@example.com', 'finance@example.com']);
+  });
+
+  test('looks up the address of a grant it does not know', async () => {
+    const sent = { ...original, grant_id: 'compose-lookup-grant', from: [{ email: 'lookup@example.com' }] };
+    const reply = await composeMessage(sent, 'reply');
+    expect(reply.to.map((recipient) => recipient.email)).toEqual(['me@example.com', 'grace@example.com']);
+    expect(getGrant('compose-lookup-grant')).toMatchObject({ email: 'lookup@example.com', provider: 'google' });
+  });
+
+  test('forwards with the original headers escaped and no recipients', async () => {
+    const forward = await composeMessage(original, 'forward', '<p>FYI</p>');
+    expect(forward.subject).toBe('Fwd: Budget <draft>');
+    expect(forward.to).toEqual([]);
+    expect(forward.reply_to_message_id).toBeUndefined();
+    expect(forward.body).toContain('From: Ada &lt;ada@example.com&gt;<br>');
+    expect(forward.body).toContain('Subject: Budget &lt;draft&gt;<br>');
+    expect(forward.body).toContain('Cc: GRACE@example.com, finance@example.com<br><br><p>Numbers attached</p></div>');
+    expect((await composeMessage({ ...original, subject: 'Fw: Budget' }, 'forward')).subject).toBe('Fw: Budget');
+  });
+});
@@ -0,0 +1,198 @@
+/**
+ * Nylas Pub/Sub Integration - Reply and Forward Composition
+ *
+ * Builds replies, reply-alls and forwards from an existing message fetched
+ * from Nylas: recipient lists, "Re:"/"Fwd:" subjects, a quoted copy of the
+ * original body and, for forwards, the original attachments.
+ *
+ * @license MIT
+ * @copyright Copyright (c) 2025 Aemal Sayer
+ */
+
+import axios from 'axios';
+import { config } from './config';
+import type { Attachment } from './email-attachments';
+import { getGrant, recordGrant } from './grant-registry';
+import { getLogger } from './logger';
+import type { EmailRecipient } from './types';
+
+export type ComposeMode = 'reply' | 'reply-all' | 'forward';
+
+// Attachment metadata on a Nylas message
+interface NylasAttachment {
+  id: string;
+  filename?: string;
+  content_type?: string;
+  content_id?: string;
+  is_inline?: boolean;
+  size?: number;
+}
+
+// The fields of a Nylas message used to compose a response
+export interface OriginalMessage {
+  id: string;
+  grant_id: string;
+  thread_id?: string;
+  subject?: string;
+  from?: EmailRecipient[];
+  to?: EmailRecipient[];
+  cc?: EmailRecipient[];
+  reply_to?: EmailRecipient[];
+  date?: number;
+  body?: string;
+  attachments?: NylasAttachment[];
+}
+
+export interface ComposedMessage {
+  subject: string;
+  to: EmailRecipient[];
+  cc: EmailRecipient[];
+  body: string;
+  reply_to_message_id?: string;
+}
+
+function nylasHeaders() {
+  return {
+    'Authorization': `Bearer ${config.nylas.apiKey}`,
+    'Accept': 'application/json'
+  };
+}
+
+export async function fetchMessage(grantId: string, messageId: string): Promise<OriginalMessage> {
+  const response = await axios.get(
+    `${config.nylas.apiUri}/v3/grants/${grantId}/messages/${encodeURIComponent(messageId)}`,
+    { headers: nylasHeaders() }
+  );
+  return response.data.data;
+}
+
+/**
+ * The mailbox's own address, so replies do not go back to the sender
+ */
+async function getOwnEmail(grantId: string): Promise<string | null> {
+  const known = getGrant(grantId)?.email;
+  if (known) {
+    return known;
+  }
+  try {
+    const response = await axios.get(`${config.nylas.apiUri}/v3/grants/${grantId}`, { headers: nylasHeaders() });
+    const email: string | undefined = response.data.data?.email;
+    if (email) {
+      recordGrant({ grant_id: grantId, email, provider: response.data.data?.provider }, getGrant(grantId)?.status ?? 'valid');
+    }
+    return email ?? null;
+  } catch (error) {
+    getLogger().warn({ err: error }, `⚠️ Could not look up the address of grant ${grantId}`);
+    return null;
+  }
+}
+
+/**
+ * Download the original attachments of a message for forwarding
+ */
+export async function downloadAttachments(original: OriginalMessage): Promise<Attachment[]> {
+  const attachments: Attachment[] = [];
+  for (const attachment of original.attachments ?? []) {
+    const response = await axios.get(
+      `${config.nylas.apiUri}/v3/grants/${original.grant_id}/attachments/${encodeURIComponent(attachment.id)}/download`,
+      { headers: nylasHeaders(), params: { message_id: original.id }, responseType: 'arraybuffer' }
+    );
+    attachments.push({
+      filename: attachment.filename || attachment.id,
+      contentType: attachment.content_type || 'application/octet-stream',
+      content: Buffer.from(response.data),
+      // Inline images stay referenced by their content ID in the quoted body
+      contentId: attachment.is_inline ? attachment.content_id : undefined
+    });
+  }
+  return attachments;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function formatAddress(recipient: EmailRecipient): string {
+  return recipient.name ? `${recipient.name} <${recipient.email}>` : recipient.email;
+}
+
+function formatAddresses(recipients: EmailRecipient[] = []): string {
+  return escapeHtml(recipients.map(formatAddress).join(', '));
+}
+
+function formatDate(date?: number): string {
+  return date ? new Date(date * 1000).toUTCString() : 'an earlier date';
+}
+
+function prefixSubject(prefix: 'Re' | 'Fwd', subject = ''): string {
+  const existing = prefix === 'Re' ? /^re:/i : /^(fwd?|fw):/i;
+  return existing.test(subject.trim()) ? subject : `${prefix}: ${subject}`;
+}
+
+// Drop duplicates and the given addresses, comparing case-insensitively
+function uniqueRecipients(recipients: EmailRecipient[], exclude: string[]): EmailRecipient[] {
+  const seen = new Set(exclude.map((email) => email.toLowerCase()));
+  return recipients.filter((recipient) => {
+    const email = recipient.email.toLowerCase();
+    if (seen.has(email)) {
+      return false;
+    }
+    seen.add(email);
+    return true;
+  });
+}
+
+/**
+ * Build the subject, recipients and quoted body of a reply, reply-all or forward.
+ * `text` is the new HTML written above the quoted original.
+ */
+export async function composeMessage(original: OriginalMessage, mode: ComposeMode, text = ''): Promise<ComposedMessage> {
+  const originalBody = original.body ?? '';
+
+  if (mode === 'forward') {
+    const header = [
+      '---------- Forwarded message ---------',
+      `From: ${formatAddresses(original.from)}`,
+      `Date: ${formatDate(original.date)}`,
+      `Subject: ${escapeHtml(original.subject ?? '')}`,
+      `To: ${formatAddresses(original.to)}`,
+      ...(original.cc?.length ? [`Cc: ${formatAddresses(original.cc)}`] : [])
+    ].join('<br>');
+
+    return {
+      subject: prefixSubject('Fwd', original.subject),
+      to: [],
+      cc: [],
+      body: `${text}<br><br><div class="forwarded_message">${header}<br><br>${originalBody}</div>`
+    };
+  }
+
+  const ownEmail = (await getOwnEmail(original.grant_id))?.toLowerCase();
+  const sentByUs = !!ownEmail && original.from?.some((sender) => sender.email.toLowerCase() === ownEmail);
+
+  // Reply to the Reply-To address if there is one; replying to our own message goes to its recipients
+  const to = sentByUs
+    ? original.to ?? []
+    : original.reply_to?.length ? original.reply_to : original.from ?? [];
+  const own = ownEmail ? [ownEmail] : [];
+  const replyTo = uniqueRecipients(to, own);
+  const cc = mode === 'reply-all'
+    ? uniqueRecipients([...(original.to ?? []), ...(original.cc ?? [])], [...own, ...replyTo.map((r) => r.email)])
+    : [];
+
+  const sender = original.from?.[0] ? formatAddresses([original.from[0]]) : 'someone';
+  const quote = `<div class="quote">On ${formatDate(original.date)}, ${sender} wrote:<br>`
+    + `<blockquote style="margin:0 0 0 .8ex;border-left:1px solid #ccc;padding-left:1ex">${originalBody}</blockquote></div>`;
+
+  return {
+    subject: prefixSubject('Re', original.subject),
+    to: replyTo,
+    cc,
+    body: `${text}<br><br>${quote}`,
+    reply_to_message_id: original.id
+  };
+}
@@ -0,0 +1,74 @@
+import { describe, expect, test } from 'bun:test';
+import { matchesTrigger, NotificationDispatcher, parseTriggerType } from './notification-dispatcher';
+import { validateNotification } from './notification-schemas';
+import { buildNotification } from './simulate';
+
+describe('parseTriggerType', () => {
+  test.each([
+    ['message.created', { baseType: 'message.created' }],
+    ['message.created.transformed', { baseType: 'message.created', suffix: 'transformed' }],
+    ['message.updated.truncated', { baseType: 'message.updated', suffix: 'truncated' }],
+    ['message.created.other', { baseType: 'message.created.other' }]
+  ])('parses %s', (type, expected) => {
+    expect(parseTriggerType(type)).toEqual(expected);
+  });
+});
+
+describe('matchesTrigger', () => {
+  test.each([
+    ['*', 'grant.expired', true],
+    ['message.created', 'message.created', true],
+    ['message.created', 'message.updated', false],
+    ['message.*', 'message.opened', true],
+    ['message.*', 'messages.created', false],
+    ['message.*', 'thread.replied', false],
+    ['message', 'message.created', false]
+  ])('%s against %s is %p', (pattern, baseType, expected) => {
+    expect(matchesTrigger(pattern, baseType)).toBe(expected);
+  });
+});
+
+describe('NotificationDispatcher', () => {
+  function notification(type: string, variant?: string) {
+    return validateNotification(buildNotification(type, { grantId: 'test-grant', variant }));
+  }
+
+  test('runs matching handlers in order with the suffix in the context', async () => {
+    const dispatcher = new NotificationDispatcher();
+    const calls: string[] = [];
+    dispatcher.on('message.*', (_, context) => void calls.push(`family:${context.suffix}`));
+    dispatcher.on('event.created', () => void calls.push('event'));
+    dispatcher.on('message.created', (_, context) => void calls.push(`exact:${context.baseType}`));
+
+    const result = await dispatcher.dispatch(notification('message.created', 'truncated'), 'pubsub');
+    expect(calls).toEqual(['family:truncated', 'exact:message.created']);
+    expect(result).toEqual({ handlers: 2, failures: [] });
+  });
+
+  test('names handlers by pattern and position unless named', async () => {
+    const dispatcher = new NotificationDispatcher();
+    const error = new Error('boom');
+    dispatcher.on('folder.created', () => {
+      throw error;
+    });
+    dispatcher.on('folder.created', () => {
+      throw error;
+    }, 'named');
+
+    const { failures } = await dispatcher.dispatch(notification('folder.created'), 'webhook');
+    expect(failures).toEqual([
+      { handler: 'folder.created#1', error },
+      { handler: 'named', error }
+    ]);
+  });
+
+  test('stops calling a handler once unsubscribed', async () => {
+    const dispatcher = new NotificationDispatcher();
+    let calls = 0;
+    const unsubscribe = dispatcher.on('*', () => void calls++);
+    await dispatcher.dispatch(notification('grant.created'), 'webhook');
+    unsubscribe();
+    expect((await dispatcher.dispatch(notification('grant.created'), 'webhook')).handlers).toBe(0);
+    expect(calls).toBe(1);
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * Nylas Pub/Sub Integration - Notification Dispatcher
+ *
+ * A single registry of notification handlers shared by the webhook and Pub/Sub
+ * routes. Each transport unwraps the NylasNotification and hands it to
+ * `dispatcher.dispatch()`, so a handler runs the same way regardless of how
+ * Nylas delivered the notification. Every matching handler runs even when
+ * another one fails, and the failures are reported by handler name so a retry
+ * can run just the handlers that failed.
+ *
+ * @license MIT
+ * @copyright Copyright (c) 2025 Aemal Sayer
+ */
+
+import { getLogger } from './logger';
+import type { NotificationTransport } from './types';
+import type { NotificationForPattern, TypedNotification } from './notification-schemas';
+
+// Suffixes Nylas appends to a trigger type when it modifies the payload
+const TRIGGER_SUFFIXES = ['.transformed', '.truncated'];
+
+// Context passed to every handler alongside the notification
+export interface NotificationContext {
+  transport: NotificationTransport;
+  baseType: string; // Trigger type with any suffix removed (e.g. "message.created")
+  suffix?: string; // The removed suffix, if any (e.g. "transformed")
+}
+
+export type NotificationHandler<N extends TypedNotification = TypedNotification> = (
+  notification: N,
+  context: NotificationContext
+) => void | Promise<void>;
+
+interface Subscription {
+  pattern: string;
+  name: string;
+  handler: NotificationHandler;
+}
+
+export interface HandlerFailure {
+  handler: string; // Name the handler was registered with
+  error: unknown;
+}
+
+export interface DispatchResult {
+  handlers: number; // Handlers that ran, including the ones that failed
+  failures: HandlerFailure[];
+}
+
+export interface DispatchOptions {
+  only?: string[]; // Run just these handlers (e.g. the ones that failed last time)
+}
+
+/**
+ * Strip the `.transformed` / `.truncated` suffix from a trigger type
+ */
+export function parseTriggerType(type: string): { baseType: string; suffix?: string } {
+  for (const suffix of TRIGGER_SUFFIXES) {
+    if (type.endsWith(suffix)) {
+      return { baseType: type.slice(0, -suffix.length), suffix: suffix.slice(1) };
+    }
+  }
+  return { baseType: type };
+}
+
+/**
+ * Check whether a subscription pattern matches a base trigger type.
+ * Supported patterns: exact ("message.created"), prefix wildcard ("message.*")
+ * and catch-all ("*").
+ */
+export function matchesTrigger(pattern: string, baseType: string): boolean {
+  if (pattern === '*' || pattern === baseType) {
+    return true;
+  }
+  if (pattern.endsWith('.*')) {
+    return baseType.startsWith(pattern.slice(0, -1));
+  }
+  return false;
+}
+
+export class NotificationDispatcher {
+  private subscriptions: Subscription[] = [];
+
+  /**
+   * Subscribe a handler to a trigger type pattern. Returns an unsubscribe function.
+   * The handler's notification type is narrowed from the pattern (e.g. "event.created"
+   * receives an EventNotification). The name identifies the handler in dead letters;
+   * it defaults to the pattern and its position among handlers for the same pattern.
+   */
+  on<P extends string>(pattern: P, handler: NotificationHandler<NotificationForPattern<P>>, name?: string): () => void {
+    const position = this.subscriptions.filter((s) => s.pattern === pattern).length + 1;
+    // Only notifications matching the pattern reach the handler, so widening it is safe
+    const subscription = { pattern, name: name ?? `${pattern}#${position}`, handler: handler as NotificationHandler };
+    this.subscriptions.push(subscription);
+    return () => {
+      this.subscriptions = this.subscriptions.filter((s) => s !== subscription);
+    };
+  }
+
+  /**
+   * Run every handler whose pattern matches the notification, in registration order.
+   * A handler that throws does not stop the others; its error is returned in `failures`.
+   */
+  async dispatch(
+    notification: TypedNotification,
+    transport: NotificationTransport,
+    options: DispatchOptions = {}
+  ): Promise<DispatchResult> {
+    const { baseType, suffix } = parseTriggerType(notification.type);
+    const context: NotificationContext = { transport, baseType, suffix };
+    const handlers = this.subscriptions.filter(
+      (s) => matchesTrigger(s.pattern, baseType) && (!options.only || options.only.includes(s.name))
+    );
+
+    if (handlers.length === 0) {
+      getLogger().info('No specific handling implemented for this notification');
+      return { handlers: 0, failures: [] };
+    }
+
+    const failures: HandlerFailure[] = [];
+    for (const { name, handler } of handlers) {
+      try {
+        await handler(notification, context);
+      } catch (error) {
+        getLogger().error({ err: error, handler: name }, 'Notification handler failed');
+        failures.push({ handler: name, error });
+      }
+    }
+    return { handlers: handlers.length, failures };
+  }
+}
+
+// Shared dispatcher instance used by both transports
+export const dispatcher = new NotificationDispatcher();
@@ -0,0 +1,100 @@
+/**
+ * Nylas Pub/Sub Integration - Notification Handlers
+ *
+ * Default handlers registered on the shared dispatcher. They run for both
+ * webhook and Pub/Sub deliveries. Sender, recipients, subject and a body
+ * preview are only logged at debug level.
+ *
+ * @license MIT
+ * @copyright Copyright (c) 2025 Aemal Sayer
+ */
+
+import { dispatcher } from './notification-dispatcher';
+import { getLogger } from './logger';
+import { upsertMessage } from './mailbox-mirror';
+import type { EmailRecipient } from './types';
+
+// Handle new message
+dispatcher.on('message.created', (notification) => {
+  const messageData = notification.data.object;
+  const log = getLogger();
+  log.info(
+    {
+      message_id: messageData.id,
+      thread_id: messageData.thread_id,
+      date: messageData.date ? new Date(messageData.date * 1000).toISOString() : undefined
+    },
+    'New message received'
+  );
+  log.debug(
+    {
+      message_id: messageData.id,
+      from: messageData.from?.[0]?.email,
+      to: messageData.to?.map((r: EmailRecipient) => r.email),
+      subject: messageData.subject,
+      body_preview: messageData.body?.substring(0, 100)
+    },
+    'New message details'
+  );
+}, 'log');
+
+// Handle updated message
+dispatcher.on('message.updated', (notification) => {
+  const updatedMessage = notification.data.object;
+  getLogger().info(
+    {
+      message_id: updatedMessage.id,
+      thread_id: updatedMessage.thread_id,
+      folders: updatedMessage.folders ?? [],
+      unread: updatedMessage.unread
+    },
+    'Message updated'
+  );
+  getLogger().debug({ message_id: updatedMessage.id, subject: updatedMessage.subject }, 'Updated message details');
+}, 'log');
+
+// Keep the local mailbox mirror up to date
+dispatcher.on('message.created', (notification) => {
+  upsertMessage(notification.data.object, notification.data.grant_id);
+}, 'mailbox-mirror');
+
+dispatcher.on('message.updated', (notification) => {
+  upsertMessage(notification.data.object, notification.data.grant_id);
+}, 'mailbox-mirror');
+
+// Handle new calendar event
+dispatcher.on('event.created', (notification) => {
+  const eventData = notification.data.object;
+  const toIso = (seconds?: number) => (seconds ? new Date(seconds * 1000).toISOString() : undefined);
+  getLogger().info(
+    {
+      event_id: eventData.id,
+      calendar_id: eventData.calendar_id,
+      start: toIso(eventData.when?.start_time),
+      end: toIso(eventData.when?.end_time),
+      participants: eventData.participants?.length || 0
+    },
+    'New event created'
+  );
+  getLogger().debug({ event_id: eventData.id, title: eventData.title }, 'New event details');
+}, 'log');
+
+// Handle updated event
+dispatcher.on('event.updated', (notification) => {
+  const eventData = notification.data.object;
+  getLogger().info(
+    {
+      event_id: eventData.id,
+      status: eventData.status || 'unknown',
+      participants: eventData.participants?.length || 0
+    },
+    'Event updated'
+  );
+  getLogger().debug({ event_id: eventData.id, title: eventData.title }, 'Updated event details');
+}, 'log');
+
+// Handle deleted event
+dispatcher.on('event.deleted', (notification) => {
+  const eventData = notification.data.object;
+  getLogger().info({ event_id: eventData.id, calendar_id: eventData.calendar_id }, 'Event deleted');
+}, 'log');
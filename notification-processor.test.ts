@@ -0,0 +1,85 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+import { dispatcher } from './notification-dispatcher';
+import { HandlerFailureError, processNotification, replayDeadLetter } from './notification-processor';
+import { getDuplicateStats, getPendingDeadLetter, listQuarantinedNotifications } from './notification-store';
+import { buildNotification } from './simulate';
+
+const unsubscribes: (() => void)[] = [];
+
+function folderNotification() {
+  return buildNotification('folder.created', { grantId: 'test-grant' });
+}
+
+afterEach(() => {
+  unsubscribes.splice(0).forEach((unsubscribe) => unsubscribe());
+});
+
+describe('processNotification', () => {
+  test('dispatches a notification once and skips redeliveries', async () => {
+    let calls = 0;
+    unsubscribes.push(dispatcher.on('folder.created', () => void calls++, 'test-counter'));
+    const notification = folderNotification();
+    const before = getDuplicateStats().duplicates;
+
+    expect((await processNotification(notification, 'webhook')).duplicate).toBe(false);
+    expect((await processNotification({ ...notification, webhook_delivery_attempt: 2 }, 'webhook')).duplicate).toBe(true);
+    expect((await processNotification(notification, 'pubsub')).duplicate).toBe(true);
+
+    expect(calls).toBe(1);
+    expect(getDuplicateStats().duplicates).toBe(before + 2);
+  });
+
+  test('quarantines a notification that fails validation', async () => {
+    const result = await processNotification({ id: 'broken', type: 'folder.created' }, 'webhook');
+    expect(result.quarantined).toBe(true);
+    expect(listQuarantinedNotifications().some((entry) => entry.notification_id === 'broken')).toBe(true);
+  });
+
+  test('runs every handler, dead-letters the failures and retries only those', async () => {
+    let succeeded = 0;
+    let attempts = 0;
+    let broken = true;
+    unsubscribes.push(
+      dispatcher.on('folder.created', () => {
+        attempts++;
+        if (broken) throw new Error('downstream unavailable');
+      }, 'test-flaky'),
+      dispatcher.on('folder.created', () => void succeeded++, 'test-side-effect')
+    );
+    const notification = folderNotification();
+
+    const error = await processNotification(notification, 'webhook').catch((e) => e);
+    expect(error).toBeInstanceOf(HandlerFailureError);
+    expect(succeeded).toBe(1);
+    const deadLetter = getPendingDeadLetter(notification.id)!;
+    expect(deadLetter.failed_handlers).toEqual(['test-flaky']);
+    expect(deadLetter.error).toContain('downstream unavailable');
+
+    // The redelivery is processed again, but only the failed handler runs
+    await processNotification({ ...notification, webhook_delivery_attempt: 2 }, 'webhook').catch(() => undefined);
+    expect(attempts).toBe(2);
+    expect(succeeded).toBe(1);
+    expect(getPendingDeadLetter(notification.id)!.attempts).toBe(2);
+
+    broken = false;
+    const result = await replayDeadLetter(deadLetter.id);
+    expect(result?.handlers).toBe(1);
+    expect(attempts).toBe(3);
+    expect(succeeded).toBe(1);
+    expect(getPendingDeadLetter(notification.id)).toBeNull();
+  });
+
+  test('refuses to replay a resolved dead letter without a new payload', async () => {
+    let broken = true;
+    unsubscribes.push(dispatcher.on('folder.created', () => {
+      if (broken) throw new Error('boom');
+    }, 'test-once'));
+    const notification = folderNotification();
+    await processNotification(notification, 'webhook').catch(() => undefined);
+    const { id } = getPendingDeadLetter(notification.id)!;
+
+    broken = false;
+    await replayDeadLetter(id);
+    await expect(replayDeadLetter(id)).rejects.toMatchObject({ statusCode: 409 });
+  });
+});
@@ -0,0 +1,209 @@
+/**
+ * Nylas Pub/Sub Integration - Notification Processor
+ * 
+ * The processing path shared by every transport: payload validation,
+ * duplicate suppression and dispatch to the registered handlers.
+ * Notifications that fail are kept as dead letters and can be replayed;
+ * retries and replays run only the handlers that failed.
+ * Everything logged while a notification is processed carries its ID.
+ * 
+ * @license MIT
+ * @copyright Copyright (c) 2025 Aemal Sayer
+ */
+
+import { enrichNotification } from './contact-index';
+import { getLogger, withLogger } from './logger';
+import { dispatcher, type HandlerFailure } from './notification-dispatcher';
+import { NotificationValidationError, validateNotification } from './notification-schemas';
+import {
+  claimNotification,
+  getDeadLetter,
+  getPendingDeadLetter,
+  quarantineNotification,
+  recordDeadLetter,
+  releaseNotification,
+  resolveDeadLetter
+} from './notification-store';
+import type { NotificationTransport, NylasNotification, PubSubMessage } from './types';
+
+export interface ProcessResult {
+  duplicate: boolean;
+  quarantined: boolean;
+  handlers: number;
+  error?: string;
+}
+
+/**
+ * Thrown when a dead letter cannot be replayed
+ */
+export class ReplayError extends Error {
+  constructor(
+    public readonly statusCode: number,
+    message: string
+  ) {
+    super(message);
+    this.name = 'ReplayError';
+  }
+}
+
+/**
+ * Thrown when one or more handlers failed; the others have still run
+ */
+export class HandlerFailureError extends Error {
+  constructor(public readonly failures: HandlerFailure[]) {
+    super(`${failures.length} handler(s) failed: ${failures.map((failure) => failure.handler).join(', ')}`);
+    this.name = 'HandlerFailureError';
+  }
+
+  // Every handler's error, for the dead letter
+  describe(): string {
+    return this.failures
+      .map(({ handler, error }) => `[${handler}] ${error instanceof Error ? error.stack || error.message : String(error)}`)
+      .join('\n\n');
+  }
+}
+
+/**
+ * Validate a notification and dispatch it unless its ID has already been processed.
+ * Malformed notifications are quarantined instead of dispatched. Recipients
+ * without a name are given the name of a matching indexed contact.
+ * If a handler throws, the claim is released so the retry is processed again;
+ * the failed handlers are kept on the dead letter, and a retry or replay runs
+ * only those, so handlers that succeeded do not repeat their side effects.
+ */
+export async function processNotification(
+  raw: unknown,
+  transport: NotificationTransport
+): Promise<ProcessResult> {
+  let notification;
+  try {
+    notification = validateNotification(raw);
+  } catch (error) {
+    if (error instanceof NotificationValidationError) {
+      getLogger().warn(
+        { notification_id: error.notificationId, notification_type: error.notificationType, transport, issues: error.issues },
+        'Quarantining notification that failed validation'
+      );
+      quarantineNotification(raw, transport, error);
+      return { duplicate: false, quarantined: true, handlers: 0, error: error.message };
+    }
+    throw error;
+  }
+
+  const log = getLogger().child({
+    notification_id: notification.id,
+    notification_type: notification.type,
+    transport
+  });
+
+  const claimed = claimNotification(
+    notification.id,
+    notification.type,
+    transport,
+    notification.webhook_delivery_attempt || 1
+  );
+
+  if (!claimed) {
+    log.info('Duplicate notification, skipping dispatch');
+    return { duplicate: true, quarantined: false, handlers: 0 };
+  }
+
+  // After a partial failure, only the handlers that failed run again
+  const only = getPendingDeadLetter(notification.id)?.failed_handlers ?? undefined;
+
+  try {
+    // Fill in known contact names before handlers see the recipients
+    enrichNotification(notification);
+    const { handlers, failures } = await withLogger(log, () => dispatcher.dispatch(notification, transport, { only }));
+    if (failures.length > 0) {
+      throw new HandlerFailureError(failures);
+    }
+    log.debug({ handlers, retried: only }, 'Notification processed');
+    // A redelivery that succeeds settles an earlier failure
+    resolveDeadLetter({ notificationId: notification.id });
+    return { duplicate: false, quarantined: false, handlers };
+  } catch (error) {
+    releaseNotification(notification.id);
+    const deadLetterId = recordDeadLetter({
+      notificationId: notification.id,
+      type: notification.type,
+      transport,
+      error: error instanceof HandlerFailureError ? error.describe() : error,
+      payload: raw,
+      // Handlers never ran when the error came before dispatch
+      failedHandlers: error instanceof HandlerFailureError ? error.failures.map((failure) => failure.handler) : only,
+      deliveryAttempt: notification.webhook_delivery_attempt
+    });
+    log.error({ err: error, dead_letter_id: deadLetterId }, '💀 Notification failed, kept as dead letter');
+    throw error;
+  }
+}
+
+/**
+ * Decode a Pub/Sub message (push or pull) and process the Nylas notification inside it.
+ * Messages whose data is not JSON are logged and reported as handled.
+ */
+export async function processPubSubMessage(message: PubSubMessage['message']): Promise<ProcessResult> {
+  // Decode the base64 message data
+  const decodedData = Buffer.from(message.data, 'base64').toString('utf-8');
+
+  let notification: unknown;
+  try {
+    // Parse the decoded data as JSON (Nylas notification)
+    notification = JSON.parse(decodedData);
+  } catch (parseError) {
+    getLogger().debug({ data: decodedData }, 'Undecodable Pub/Sub message data');
+    // Redelivery would fail the same way, so the message is acknowledged and kept here instead
+    const deadLetterId = recordDeadLetter({
+      transport: 'pubsub',
+      error: `Message data is not valid JSON (Pub/Sub message ${message.messageId}): ${parseError instanceof Error ? parseError.message : parseError}`,
+      payload: decodedData
+    });
+    getLogger().error(
+      { err: parseError, pubsub_message_id: message.messageId, dead_letter_id: deadLetterId },
+      '💀 Pub/Sub message data is not valid JSON, kept as dead letter'
+    );
+    return { duplicate: false, quarantined: false, handlers: 0, error: 'Message data is not valid JSON' };
+  }
+
+  const { id, type, source } = (notification ?? {}) as Partial<NylasNotification>;
+  getLogger().info({ notification_id: id, notification_type: type, source }, 'Parsed Nylas notification from Pub/Sub');
+  getLogger().debug({ notification }, 'Pub/Sub payload');
+
+  return processNotification(notification, 'pubsub');
+}
+
+/**
+ * Process a dead letter again, optionally with a corrected payload. It is
+ * resolved when processing succeeds (or the notification has been processed
+ * since); a failure is recorded on it again and thrown.
+ */
+export async function replayDeadLetter(id: number, payload?: unknown): Promise<ProcessResult | null> {
+  const deadLetter = getDeadLetter(id);
+  if (!deadLetter) {
+    return null;
+  }
+  if (deadLetter.status === 'resolved' && payload === undefined) {
+    throw new ReplayError(409, `Dead letter ${id} has already been resolved`);
+  }
+
+  let notification = payload ?? deadLetter.payload;
+  // Undecodable Pub/Sub data is stored as the raw string
+  if (typeof notification === 'string') {
+    try {
+      notification = JSON.parse(notification);
+    } catch {
+      throw new ReplayError(422, `Dead letter ${id} is not valid JSON; replay it with a corrected "payload"`);
+    }
+  }
+
+  getLogger().info(
+    { dead_letter_id: id, notification_type: deadLetter.type, transport: deadLetter.transport },
+    '🔁 Replaying dead letter'
+  );
+  const result = await processNotification(notification, deadLetter.transport);
+  if (!result.quarantined) {
+    resolveDeadLetter({ id });
+  }
+  return result;
+}
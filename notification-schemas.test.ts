@@ -0,0 +1,25 @@
+import { describe, expect, test } from 'bun:test';
+import { NotificationValidationError, validateNotification } from './notification-schemas';
+import { buildNotification } from './simulate';
+
+describe('validateNotification', () => {
+  test('types a notification by its trigger, ignoring the variant suffix', () => {
+    const notification = validateNotification(buildNotification('event.created', { grantId: 'test-grant', variant: 'transformed' }));
+    expect(notification.kind).toBe('event');
+  });
+
+  test('accepts a bounce, which has no message id of its own', () => {
+    const notification = buildNotification('message.bounce_detected', {
+      grantId: 'test-grant',
+      overrides: { origin: { subject: 'Quarterly report' } }
+    });
+    const validated = validateNotification(notification);
+    expect(validated.kind).toBe('bounce');
+    expect(validated.data.object).toMatchObject({ bounce_reason: 'Mailbox not found', origin: { subject: 'Quarterly report' } });
+  });
+
+  test('still requires an id on message objects', () => {
+    const notification = buildNotification('message.created', { grantId: 'test-grant', overrides: { id: undefined } });
+    expect(() => validateNotification(JSON.parse(JSON.stringify(notification)))).toThrow(NotificationValidationError);
+  });
+});
@@ -0,0 +1,356 @@
+/**
+ * Nylas Pub/Sub Integration - Notification Payload Schemas
+ *
+ * Runtime schemas for the notification envelope and the objects Nylas sends
+ * for messages, events, grants, contacts, threads, folders, bounces and tracking
+ * (opens, link clicks and replies). A notification
+ * is validated once when it arrives; handlers receive the typed result.
+ *
+ * @license MIT
+ * @copyright Copyright (c) 2025 Aemal Sayer
+ */
+
+import { z } from 'zod';
+import type { NylasNotification } from './types';
+import { parseTriggerType } from './notification-dispatcher';
+
+// Objects keep fields we don't model so handlers can still log or forward them
+const participantSchema = z
+  .object({
+    email: z.string(),
+    name: z.string().optional()
+  })
+  .passthrough();
+
+const attachmentSchema = z
+  .object({
+    id: z.string(),
+    filename: z.string().optional(),
+    content_type: z.string().optional(),
+    size: z.number().optional(),
+    is_inline: z.boolean().optional()
+  })
+  .passthrough();
+
+export const messageObjectSchema = z
+  .object({
+    id: z.string(),
+    grant_id: z.string().optional(),
+    thread_id: z.string().optional(),
+    subject: z.string().optional(),
+    from: z.array(participantSchema).optional(),
+    to: z.array(participantSchema).optional(),
+    cc: z.array(participantSchema).optional(),
+    bcc: z.array(participantSchema).optional(),
+    reply_to: z.array(participantSchema).optional(),
+    date: z.number().optional(),
+    unread: z.boolean().optional(),
+    starred: z.boolean().optional(),
+    folders: z.array(z.string()).optional(),
+    snippet: z.string().optional(),
+    body: z.string().optional(),
+    attachments: z.array(attachmentSchema).optional()
+  })
+  .passthrough();
+
+const eventParticipantSchema = participantSchema.extend({
+  status: z.enum(['yes', 'no', 'maybe', 'noreply']).optional(),
+  comment: z.string().optional()
+});
+
+// Timespan, date and datespan events all share this shape with different fields set
+const eventWhenSchema = z
+  .object({
+    object: z.string().optional(),
+    start_time: z.number().optional(),
+    end_time: z.number().optional(),
+    start_timezone: z.string().optional(),
+    end_timezone: z.string().optional(),
+    date: z.string().optional(),
+    start_date: z.string().optional(),
+    end_date: z.string().optional()
+  })
+  .passthrough();
+
+export const eventObjectSchema = z
+  .object({
+    id: z.string(),
+    grant_id: z.string().optional(),
+    calendar_id: z.string().optional(),
+    title: z.string().optional(),
+    description: z.string().nullable().optional(),
+    location: z.string().nullable().optional(),
+    when: eventWhenSchema.optional(),
+    participants: z.array(eventParticipantSchema).optional(),
+    organizer: participantSchema.optional(),
+    status: z.string().optional(),
+    busy: z.boolean().optional()
+  })
+  .passthrough();
+
+export const grantObjectSchema = z
+  .object({
+    grant_id: z.string(),
+    code: z.number().optional(),
+    integration_id: z.string().optional(),
+    provider: z.string().optional(),
+    email: z.string().optional()
+  })
+  .passthrough();
+
+export const contactObjectSchema = z
+  .object({
+    id: z.string(),
+    grant_id: z.string().optional(),
+    given_name: z.string().optional(),
+    surname: z.string().optional(),
+    nickname: z.string().optional(),
+    company_name: z.string().optional(),
+    emails: z
+      .array(z.object({ email: z.string(), type: z.string().optional() }).passthrough())
+      .optional(),
+    phone_numbers: z
+      .array(z.object({ number: z.string(), type: z.string().optional() }).passthrough())
+      .optional()
+  })
+  .passthrough();
+
+export const threadObjectSchema = z
+  .object({
+    id: z.string(),
+    grant_id: z.string().optional(),
+    subject: z.string().optional(),
+    participants: z.array(participantSchema).optional(),
+    message_ids: z.array(z.string()).optional(),
+    folders: z.array(z.string()).optional(),
+    unread: z.boolean().optional(),
+    starred: z.boolean().optional(),
+    latest_message_received_date: z.number().optional()
+  })
+  .passthrough();
+
+export const folderObjectSchema = z
+  .object({
+    id: z.string(),
+    grant_id: z.string().optional(),
+    name: z.string().optional(),
+    parent_id: z.string().optional(),
+    system_folder: z.boolean().optional(),
+    total_count: z.number().optional(),
+    unread_count: z.number().optional()
+  })
+  .passthrough();
+
+// message.opened, message.link_clicked and thread.replied all refer to a tracked sent message
+export const trackingObjectSchema = z
+  .object({
+    message_id: z.string(),
+    grant_id: z.string().optional(),
+    label: z.string().optional(),
+    sender_app_id: z.string().optional(),
+    timestamp: z.number().optional(),
+    // message.opened: total opens so far
+    message_data: z.object({ count: z.number().optional(), timestamp: z.number().optional() }).passthrough().optional(),
+    // message.link_clicked: total clicks so far, per link
+    link_data: z.array(z.object({ url: z.string(), count: z.number().optional() }).passthrough()).optional(),
+    recents: z.array(z.object({ timestamp: z.number().optional() }).passthrough()).optional(),
+    // thread.replied: message_id is the reply, root_message_id the tracked message
+    root_message_id: z.string().optional(),
+    thread_id: z.string().optional(),
+    reply_data: z.object({ count: z.number().optional() }).passthrough().optional()
+  })
+  .passthrough();
+
+// message.bounce_detected describes the bounce; the bounced message is in `origin`
+export const bounceObjectSchema = z
+  .object({
+    grant_id: z.string().optional(),
+    bounce_date: z.number().optional(),
+    bounce_reason: z.string().optional(),
+    bounced_address: z.string().optional(),
+    code: z.number().optional(),
+    type: z.string().optional(),
+    origin: messageObjectSchema.partial({ id: true }).optional()
+  })
+  .passthrough();
+
+const unknownObjectSchema = z.record(z.unknown());
+
+export type MessageObject = z.infer<typeof messageObjectSchema>;
+export type EventObject = z.infer<typeof eventObjectSchema>;
+export type GrantObject = z.infer<typeof grantObjectSchema>;
+export type ContactObject = z.infer<typeof contactObjectSchema>;
+export type ThreadObject = z.infer<typeof threadObjectSchema>;
+export type FolderObject = z.infer<typeof folderObjectSchema>;
+export type TrackingObject = z.infer<typeof trackingObjectSchema>;
+export type BounceObject = z.infer<typeof bounceObjectSchema>;
+
+// Which object schema each trigger type carries
+const TRIGGER_KINDS = {
+  'message.created': 'message',
+  'message.updated': 'message',
+  'message.send_success': 'message',
+  'message.send_failed': 'message',
+  'message.bounce_detected': 'bounce',
+  'message.opened': 'tracking',
+  'message.link_clicked': 'tracking',
+  'event.created': 'event',
+  'event.updated': 'event',
+  'event.deleted': 'event',
+  'grant.created': 'grant',
+  'grant.updated': 'grant',
+  'grant.deleted': 'grant',
+  'grant.expired': 'grant',
+  'contact.created': 'contact',
+  'contact.updated': 'contact',
+  'contact.deleted': 'contact',
+  'thread.created': 'thread',
+  'thread.updated': 'thread',
+  'thread.deleted': 'thread',
+  'thread.replied': 'tracking',
+  'folder.created': 'folder',
+  'folder.updated': 'folder',
+  'folder.deleted': 'folder'
+} as const;
+
+const OBJECT_SCHEMAS = {
+  message: messageObjectSchema,
+  event: eventObjectSchema,
+  grant: grantObjectSchema,
+  contact: contactObjectSchema,
+  thread: threadObjectSchema,
+  folder: folderObjectSchema,
+  tracking: trackingObjectSchema,
+  bounce: bounceObjectSchema,
+  unknown: unknownObjectSchema
+};
+
+type KnownTrigger = keyof typeof TRIGGER_KINDS;
+export type NotificationKind = keyof typeof OBJECT_SCHEMAS;
+
+interface NotificationOf<K extends NotificationKind, O> extends Omit<NylasNotification, 'data'> {
+  kind: K;
+  data: {
+    application_id: string;
+    grant_id?: string;
+    object: O;
+  };
+}
+
+export type MessageNotification = NotificationOf<'message', MessageObject>;
+export type EventNotification = NotificationOf<'event', EventObject>;
+export type GrantNotification = NotificationOf<'grant', GrantObject>;
+export type ContactNotification = NotificationOf<'contact', ContactObject>;
+export type ThreadNotification = NotificationOf<'thread', ThreadObject>;
+export type FolderNotification = NotificationOf<'folder', FolderObject>;
+export type TrackingNotification = NotificationOf<'tracking', TrackingObject>;
+export type BounceNotification = NotificationOf<'bounce', BounceObject>;
+export type UnknownNotification = NotificationOf<'unknown', Record<string, unknown>>;
+
+// Discriminated union of every validated notification (switch on `kind`)
+export type TypedNotification =
+  | MessageNotification
+  | EventNotification
+  | GrantNotification
+  | ContactNotification
+  | ThreadNotification
+  | FolderNotification
+  | TrackingNotification
+  | BounceNotification
+  | UnknownNotification;
+
+type NotificationByKind = {
+  [N in TypedNotification as N['kind']]: N;
+};
+
+type NotificationForTrigger<T extends KnownTrigger> = NotificationByKind[(typeof TRIGGER_KINDS)[T]];
+
+/**
+ * The notification type a handler receives for a subscription pattern:
+ * exact triggers get their object type, `family.*` gets the union of that
+ * family, and anything else gets the full union.
+ */
+export type NotificationForPattern<P extends string> = P extends KnownTrigger
+  ? NotificationForTrigger<P>
+  : P extends `${infer Family}.*`
+    ? NotificationForTrigger<Extract<KnownTrigger, `${Family}.${string}`>> | UnknownNotification
+    : TypedNotification;
+
+const envelopeSchema = z
+  .object({
+    specversion: z.string(),
+    type: z.string().min(1),
+    source: z.string(),
+    id: z.string().min(1),
+    time: z.number().optional(),
+    webhook_delivery_attempt: z.number().int().positive().optional(),
+    data: z
+      .object({
+        application_id: z.string(),
+        grant_id: z.string().optional(),
+        object: z.unknown()
+      })
+      .passthrough()
+  })
+  .passthrough();
+
+/**
+ * Thrown when a notification does not match its schema
+ */
+export class NotificationValidationError extends Error {
+  constructor(
+    public readonly notificationId: string | undefined,
+    public readonly notificationType: string | undefined,
+    public readonly issues: string[]
+  ) {
+    super(
+      `Invalid ${notificationType || 'unknown'} notification ${notificationId || '(no id)'}: ${issues.join('; ')}`
+    );
+    this.name = 'NotificationValidationError';
+  }
+}
+
+function formatIssues(error: z.ZodError, prefix: string): string[] {
+  return error.issues.map((issue) => {
+    const path = [prefix, ...issue.path].filter((p) => p !== '').join('.');
+    return `${path || '(root)'}: ${issue.message}`;
+  });
+}
+
+export function getNotificationKind(type: string): NotificationKind {
+  const { baseType } = parseTriggerType(type);
+  return (TRIGGER_KINDS as Record<string, NotificationKind>)[baseType] || 'unknown';
+}
+
+/**
+ * Validate a raw notification and return it as a typed notification.
+ * Throws NotificationValidationError describing every problem found.
+ */
+export function validateNotification(raw: unknown): TypedNotification {
+  const envelope = envelopeSchema.safeParse(raw);
+  if (!envelope.success) {
+    const partial = (raw && typeof raw === 'object' ? raw : {}) as Partial<NylasNotification>;
+    throw new NotificationValidationError(
+      typeof partial.id === 'string' ? partial.id : undefined,
+      typeof partial.type === 'string' ? partial.type : undefined,
+      formatIssues(envelope.error, '')
+    );
+  }
+
+  const notification = envelope.data;
+  const kind = getNotificationKind(notification.type);
+  const object = OBJECT_SCHEMAS[kind].safeParse(notification.data.object);
+  if (!object.success) {
+    throw new NotificationValidationError(
+      notification.id,
+      notification.type,
+      formatIssues(object.error, 'data.object')
+    );
+  }
+
+  return {
+    ...notification,
+    kind,
+    data: { ...notification.data, object: object.data }
+  } as TypedNotification;
+}
@@ -0,0 +1,378 @@
+/**
+ * Nylas Pub/Sub Integration - Processed Notification Store
+ * 
+ * Remembers which notification IDs have already been dispatched so that
+ * webhook retries and Pub/Sub redeliveries are acknowledged without running
+ * their side effects a second time. Also keeps malformed notifications in
+ * quarantine for inspection, and notifications that could not be processed
+ * as dead letters until they are replayed or discarded.
+ * 
+ * @license MIT
+ * @copyright Copyright (c) 2025 Aemal Sayer
+ */
+
+import { config } from './config';
+import { db } from './database';
+import type { NotificationValidationError } from './notification-schemas';
+import type { NotificationTransport } from './types';
+
+// How long to remember a notification ID (default: 72 hours, matching Nylas' retry window)
+const RETENTION_HOURS = config.notifications.retentionHours;
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+
+db.exec(`
+  CREATE TABLE IF NOT EXISTS processed_notifications (
+    id TEXT PRIMARY KEY,
+    type TEXT NOT NULL,
+    transport TEXT NOT NULL,
+    first_seen_at INTEGER NOT NULL,
+    last_seen_at INTEGER NOT NULL,
+    duplicate_count INTEGER NOT NULL DEFAULT 0,
+    webhook_duplicates INTEGER NOT NULL DEFAULT 0,
+    pubsub_duplicates INTEGER NOT NULL DEFAULT 0,
+    max_delivery_attempt INTEGER NOT NULL DEFAULT 1
+  );
+  CREATE INDEX IF NOT EXISTS processed_notifications_first_seen
+    ON processed_notifications (first_seen_at);
+
+  CREATE TABLE IF NOT EXISTS quarantined_notifications (
+    seq INTEGER PRIMARY KEY AUTOINCREMENT,
+    notification_id TEXT,
+    type TEXT,
+    transport TEXT NOT NULL,
+    issues_json TEXT NOT NULL,
+    payload_json TEXT NOT NULL,
+    received_at INTEGER NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS dead_letters (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    notification_id TEXT UNIQUE,
+    type TEXT,
+    transport TEXT NOT NULL,
+    error TEXT NOT NULL,
+    payload_json TEXT NOT NULL,
+    failed_handlers_json TEXT,
+    attempts INTEGER NOT NULL DEFAULT 1,
+    delivery_attempt INTEGER,
+    status TEXT NOT NULL DEFAULT 'pending',
+    first_failed_at INTEGER NOT NULL,
+    last_failed_at INTEGER NOT NULL,
+    resolved_at INTEGER
+  );
+  CREATE INDEX IF NOT EXISTS dead_letters_status ON dead_letters (status, last_failed_at);
+`);
+
+// Databases created before failed handlers were recorded
+const deadLetterColumns = db.prepare('PRAGMA table_info(dead_letters)').all() as { name: string }[];
+if (!deadLetterColumns.some((column) => column.name === 'failed_handlers_json')) {
+  db.exec('ALTER TABLE dead_letters ADD COLUMN failed_handlers_json TEXT');
+}
+
+const insertClaim = db.prepare(`
+  INSERT OR IGNORE INTO processed_notifications
+    (id, type, transport, first_seen_at, last_seen_at, max_delivery_attempt)
+  VALUES ($id, $type, $transport, $now, $now, $attempt)
+`);
+
+const recordDuplicate = db.prepare(`
+  UPDATE processed_notifications
+  SET duplicate_count = duplicate_count + 1,
+      webhook_duplicates = webhook_duplicates + ($transport = 'webhook'),
+      pubsub_duplicates = pubsub_duplicates + ($transport = 'pubsub'),
+      last_seen_at = $now,
+      max_delivery_attempt = MAX(max_delivery_attempt, $attempt)
+  WHERE id = $id
+`);
+
+const deleteClaim = db.prepare('DELETE FROM processed_notifications WHERE id = $id');
+const deleteExpired = db.prepare('DELETE FROM processed_notifications WHERE first_seen_at < $cutoff');
+
+const insertQuarantine = db.prepare(`
+  INSERT INTO quarantined_notifications
+    (notification_id, type, transport, issues_json, payload_json, received_at)
+  VALUES ($notification_id, $type, $transport, $issues_json, $payload_json, $received_at)
+`);
+
+const selectQuarantine = db.prepare(
+  'SELECT * FROM quarantined_notifications ORDER BY seq DESC LIMIT $limit'
+);
+
+const deleteExpiredQuarantine = db.prepare('DELETE FROM quarantined_notifications WHERE received_at < $cutoff');
+
+// A notification that fails again reopens its dead letter and counts the attempt
+const upsertDeadLetter = db.prepare(`
+  INSERT INTO dead_letters
+    (notification_id, type, transport, error, payload_json, failed_handlers_json, delivery_attempt, first_failed_at, last_failed_at)
+  VALUES ($notification_id, $type, $transport, $error, $payload_json, $failed_handlers_json, $delivery_attempt, $now, $now)
+  ON CONFLICT (notification_id) DO UPDATE SET
+    type = excluded.type,
+    transport = excluded.transport,
+    error = excluded.error,
+    payload_json = excluded.payload_json,
+    failed_handlers_json = excluded.failed_handlers_json,
+    attempts = attempts + 1,
+    delivery_attempt = MAX(COALESCE(delivery_attempt, 0), COALESCE(excluded.delivery_attempt, 0)),
+    status = 'pending',
+    last_failed_at = excluded.last_failed_at,
+    resolved_at = NULL
+  RETURNING id
+`);
+
+const selectDeadLetter = db.prepare('SELECT * FROM dead_letters WHERE id = $id');
+const selectPendingDeadLetter = db.prepare(
+  "SELECT * FROM dead_letters WHERE notification_id = $notification_id AND status = 'pending'"
+);
+const resolveDeadLetterById = db.prepare(
+  "UPDATE dead_letters SET status = 'resolved', resolved_at = $now WHERE id = $id AND status = 'pending'"
+);
+const resolveDeadLetterByNotification = db.prepare(
+  "UPDATE dead_letters SET status = 'resolved', resolved_at = $now WHERE notification_id = $notification_id AND status = 'pending'"
+);
+const deleteDeadLetterRow = db.prepare('DELETE FROM dead_letters WHERE id = $id');
+const deleteExpiredDeadLetters = db.prepare(
+  "DELETE FROM dead_letters WHERE status = 'resolved' AND resolved_at < $cutoff"
+);
+
+const selectStats = db.prepare(`
+  SELECT
+    COUNT(*) AS notifications,
+    COALESCE(SUM(duplicate_count), 0) AS duplicates,
+    COALESCE(SUM(CASE WHEN duplicate_count > 0 THEN 1 ELSE 0 END), 0) AS notifications_with_duplicates,
+    COALESCE(SUM(webhook_duplicates), 0) AS webhook_duplicates,
+    COALESCE(SUM(pubsub_duplicates), 0) AS pubsub_duplicates,
+    COALESCE(MAX(max_delivery_attempt), 0) AS max_delivery_attempt
+  FROM processed_notifications
+`);
+
+export interface QuarantinedNotification {
+  seq: number;
+  notification_id: string | null;
+  type: string | null;
+  transport: NotificationTransport;
+  issues: string[];
+  payload: unknown;
+  received_at: number;
+}
+
+export type DeadLetterStatus = 'pending' | 'resolved';
+
+interface QuarantineRow {
+  seq: number;
+  notification_id: string | null;
+  type: string | null;
+  transport: NotificationTransport;
+  issues_json: string;
+  payload_json: string;
+  received_at: number;
+}
+
+interface DeadLetterRow {
+  id: number;
+  notification_id: string | null;
+  type: string | null;
+  transport: NotificationTransport;
+  error: string;
+  payload_json: string;
+  failed_handlers_json: string | null;
+  attempts: number;
+  delivery_attempt: number | null;
+  status: DeadLetterStatus;
+  first_failed_at: number;
+  last_failed_at: number;
+  resolved_at: number | null;
+}
+
+export interface DeadLetter {
+  id: number;
+  notification_id: string | null; // Missing when the payload could not be decoded
+  type: string | null;
+  transport: NotificationTransport;
+  error: string;
+  payload: unknown; // The notification, or the undecodable message data as a string
+  failed_handlers: string[] | null; // Handlers to run on retry; null when none ran (all of them)
+  attempts: number; // Failed processing attempts
+  delivery_attempt: number | null; // Highest delivery attempt reported by Nylas
+  status: DeadLetterStatus;
+  first_failed_at: number;
+  last_failed_at: number;
+  resolved_at: number | null;
+}
+
+export interface DeadLetterInput {
+  notificationId?: string;
+  type?: string;
+  transport: NotificationTransport;
+  error: unknown;
+  payload: unknown;
+  failedHandlers?: string[];
+  deliveryAttempt?: number;
+}
+
+export interface DuplicateStats {
+  retention_hours: number;
+  notifications: number;
+  duplicates: number;
+  notifications_with_duplicates: number;
+  webhook_duplicates: number;
+  pubsub_duplicates: number;
+  max_delivery_attempt: number;
+}
+
+/**
+ * Record a notification ID as being processed.
+ * Returns false (and counts the duplicate) if the ID has already been claimed.
+ */
+export function claimNotification(
+  id: string,
+  type: string,
+  transport: NotificationTransport,
+  deliveryAttempt = 1
+): boolean {
+  const now = Date.now();
+  const result = insertClaim.run({ $id: id, $type: type, $transport: transport, $now: now, $attempt: deliveryAttempt });
+
+  if (result.changes === 0) {
+    recordDuplicate.run({ $id: id, $transport: transport, $now: now, $attempt: deliveryAttempt });
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Forget a claimed notification so a later redelivery is processed again
+ * (used when a handler fails).
+ */
+export function releaseNotification(id: string): void {
+  deleteClaim.run({ $id: id });
+}
+
+/**
+ * Keep a notification that failed validation, with the reasons it was rejected.
+ */
+export function quarantineNotification(
+  payload: unknown,
+  transport: NotificationTransport,
+  error: NotificationValidationError
+): void {
+  insertQuarantine.run({
+    $notification_id: error.notificationId ?? null,
+    $type: error.notificationType ?? null,
+    $transport: transport,
+    $issues_json: JSON.stringify(error.issues),
+    $payload_json: JSON.stringify(payload ?? null),
+    $received_at: Date.now()
+  });
+}
+
+export function listQuarantinedNotifications(limit = 50): QuarantinedNotification[] {
+  const rows = selectQuarantine.all({ $limit: limit }) as QuarantineRow[];
+  return rows.map((row) => ({
+    seq: row.seq,
+    notification_id: row.notification_id,
+    type: row.type,
+    transport: row.transport,
+    issues: JSON.parse(row.issues_json),
+    payload: JSON.parse(row.payload_json),
+    received_at: row.received_at
+  }));
+}
+
+function toDeadLetter(row: DeadLetterRow): DeadLetter {
+  return {
+    id: row.id,
+    notification_id: row.notification_id,
+    type: row.type,
+    transport: row.transport,
+    error: row.error,
+    payload: JSON.parse(row.payload_json),
+    failed_handlers: row.failed_handlers_json ? JSON.parse(row.failed_handlers_json) : null,
+    attempts: row.attempts,
+    delivery_attempt: row.delivery_attempt,
+    status: row.status,
+    first_failed_at: row.first_failed_at,
+    last_failed_at: row.last_failed_at,
+    resolved_at: row.resolved_at
+  };
+}
+
+/**
+ * Keep a notification that could not be processed, with the error, so it can
+ * be replayed once the cause is fixed. Returns the dead letter ID.
+ */
+export function recordDeadLetter(input: DeadLetterInput): number {
+  const { id } = upsertDeadLetter.get({
+    $notification_id: input.notificationId ?? null,
+    $type: input.type ?? null,
+    $transport: input.transport,
+    $error: input.error instanceof Error ? input.error.stack || input.error.message : String(input.error),
+    $payload_json: JSON.stringify(input.payload ?? null),
+    $failed_handlers_json: input.failedHandlers ? JSON.stringify(input.failedHandlers) : null,
+    $delivery_attempt: input.deliveryAttempt ?? null,
+    $now: Date.now()
+  }) as { id: number };
+  return id;
+}
+
+export function getDeadLetter(id: number): DeadLetter | null {
+  const row = selectDeadLetter.get({ $id: id }) as DeadLetterRow | null;
+  return row ? toDeadLetter(row) : null;
+}
+
+/**
+ * The unresolved dead letter of a notification, if it failed before
+ */
+export function getPendingDeadLetter(notificationId: string): DeadLetter | null {
+  const row = selectPendingDeadLetter.get({ $notification_id: notificationId }) as DeadLetterRow | null;
+  return row ? toDeadLetter(row) : null;
+}
+
+/**
+ * Dead letters, most recent failure first
+ */
+export function listDeadLetters(options: { status?: DeadLetterStatus; limit?: number; offset?: number } = {}): DeadLetter[] {
+  const where = options.status ? 'WHERE status = $status' : '';
+  const rows = db
+    .prepare(`SELECT * FROM dead_letters ${where} ORDER BY last_failed_at DESC LIMIT $limit OFFSET $offset`)
+    .all({
+      ...(options.status && { $status: options.status }),
+      $limit: Math.min(Math.max(options.limit ?? 50, 1), 500),
+      $offset: Math.max(options.offset ?? 0, 0)
+    }) as DeadLetterRow[];
+  return rows.map(toDeadLetter);
+}
+
+/**
+ * Mark a dead letter resolved, by dead letter ID or by notification ID
+ * (when a redelivery or replay of the notification succeeds)
+ */
+export function resolveDeadLetter(target: { id: number } | { notificationId: string }): boolean {
+  const result = 'id' in target
+    ? resolveDeadLetterById.run({ $id: target.id, $now: Date.now() })
+    : resolveDeadLetterByNotification.run({ $notification_id: target.notificationId, $now: Date.now() });
+  return result.changes > 0;
+}
+
+export function deleteDeadLetter(id: number): boolean {
+  return deleteDeadLetterRow.run({ $id: id }).changes > 0;
+}
+
+/**
+ * Delete notification IDs, quarantined payloads and resolved dead letters
+ * older than the retention window. Pending dead letters are kept until discarded.
+ */
+export function pruneNotifications(): number {
+  const cutoff = Date.now() - RETENTION_HOURS * 60 * 60 * 1000;
+  deleteExpiredQuarantine.run({ $cutoff: cutoff });
+  deleteExpiredDeadLetters.run({ $cutoff: cutoff });
+  return deleteExpired.run({ $cutoff: cutoff }).changes;
+}
+
+export function getDuplicateStats(): DuplicateStats {
+  const stats = selectStats.get() as Omit<DuplicateStats, 'retention_hours'>;
+  return { retention_hours: RETENTION_HOURS, ...stats };
+}
+
+// Prune on startup and then periodically, without keeping the process alive
+pruneNotifications();
+setInterval(pruneNotifications, PRUNE_INTERVAL_MS).unref();
@@ -0,0 +1,36 @@
+import { describe, expect, test } from 'bun:test';
+import { normalizeNotification } from './downstream-fanout';
+import { eventsSince, publish } from './notification-stream';
+import { validateNotification } from './notification-schemas';
+import { buildNotification } from './simulate';
+
+function publishEvent() {
+  const notification = validateNotification(buildNotification('folder.created', { grantId: 'test-grant' }));
+  return publish(normalizeNotification(notification, { transport: 'webhook', baseType: 'folder.created' }));
+}
+
+describe('eventsSince', () => {
+  test('resumes after the last event the client saw', () => {
+    const first = publishEvent();
+    const second = publishEvent();
+    expect(first.id).toMatch(/^[0-9a-z]+-\d+$/);
+    expect(eventsSince(first.id)).toEqual({ events: [second], complete: true });
+  });
+
+  test('reports a gap for an ID from before a restart', () => {
+    const latest = publishEvent();
+    const { events, complete } = eventsSince(`0-${latest.seq}`);
+    expect(complete).toBe(false);
+    expect(events).toContainEqual(latest);
+  });
+
+  test('reports a gap for an ID ahead of this run', () => {
+    const latest = publishEvent();
+    const [epoch] = latest.id.split('-');
+    expect(eventsSince(`${epoch}-${latest.seq + 100}`).complete).toBe(false);
+  });
+
+  test('reports a gap for a plain sequence number', () => {
+    expect(eventsSince('1').complete).toBe(false);
+  });
+});
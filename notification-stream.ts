@@ -0,0 +1,108 @@
+/**
+ * Nylas Pub/Sub Integration - Live Notification Stream
+ * 
+ * Publishes every processed notification to connected SSE and WebSocket
+ * clients. Recent events are kept in a short in-memory buffer so SSE clients
+ * can resume with Last-Event-ID after a reconnect. Event IDs are prefixed with
+ * the server's start time, so an ID from before a restart is recognised as a gap.
+ * 
+ * @license MIT
+ * @copyright Copyright (c) 2025 Aemal Sayer
+ */
+
+import { config } from './config';
+import { dispatcher, matchesTrigger } from './notification-dispatcher';
+import { normalizeNotification, type NormalizedEvent } from './downstream-fanout';
+
+// Number of recent events kept for Last-Event-ID resume
+const BUFFER_SIZE = config.stream.bufferSize;
+
+export interface StreamEvent {
+  id: string; // "<epoch>-<seq>", sent as the SSE id
+  seq: number;
+  event: NormalizedEvent;
+}
+
+// Per-client filters (both default to everything)
+export interface StreamFilter {
+  grants?: string[];
+  triggers?: string[];
+}
+
+type StreamListener = (streamEvent: StreamEvent) => void;
+
+const buffer: StreamEvent[] = [];
+const listeners = new Set<StreamListener>();
+let nextSeq = 1;
+
+// Sequence numbers restart with the process; the epoch tells the runs apart
+const EPOCH = Date.now().toString(36);
+
+export function matchesFilter(event: NormalizedEvent, filter: StreamFilter): boolean {
+  if (filter.triggers && !filter.triggers.some((pattern) => matchesTrigger(pattern, event.type))) {
+    return false;
+  }
+  if (filter.grants && (!event.grant_id || !filter.grants.includes(event.grant_id))) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Add an event to the buffer and push it to every connected client
+ */
+export function publish(event: NormalizedEvent): StreamEvent {
+  const seq = nextSeq++;
+  const streamEvent = { id: `${EPOCH}-${seq}`, seq, event };
+  buffer.push(streamEvent);
+  if (buffer.length > BUFFER_SIZE) {
+    buffer.shift();
+  }
+
+  for (const listener of listeners) {
+    listener(streamEvent);
+  }
+  return streamEvent;
+}
+
+/**
+ * Listen for new events. Returns an unsubscribe function.
+ */
+export function subscribe(listener: StreamListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Buffered events after the given event ID. `complete` is false when events
+ * may have been missed: the ID has already been dropped from the buffer, or it
+ * is not one of this run's IDs (e.g. issued before a restart), in which case
+ * the whole buffer is returned.
+ */
+export function eventsSince(lastEventId: string): { events: StreamEvent[]; complete: boolean } {
+  const match = lastEventId.match(/^([0-9a-z]+)-(\d+)$/);
+  const lastSeq = match ? Number(match[2]) : NaN;
+  if (match?.[1] !== EPOCH || lastSeq >= nextSeq) {
+    return { events: [...buffer], complete: false };
+  }
+  const oldest = buffer[0]?.seq ?? nextSeq;
+  return {
+    events: buffer.filter((streamEvent) => streamEvent.seq > lastSeq),
+    complete: lastSeq >= oldest - 1
+  };
+}
+
+export function getStreamStatus() {
+  return {
+    clients: listeners.size,
+    buffered: buffer.length,
+    buffer_size: BUFFER_SIZE,
+    last_event_id: nextSeq > 1 ? `${EPOCH}-${nextSeq - 1}` : null
+  };
+}
+
+dispatcher.on('*', (notification, context) => {
+  publish(normalizeNotification(notification, context));
+}, 'stream');
@@ -0,0 +1,22 @@
+/**
+ * Nylas Pub/Sub Integration - Outbox Routes
+ * 
+ * Status of emails queued through /api/send-email.
+ * 
+ * @license MIT
+ * @copyright Copyright (c) 2025 Aemal Sayer
+ */
+
+import type { FastifyInstance } from 'fastify';
+import { getOutboxEntry } from './outbox';
+
+export async function outboxRoutes(fastify: FastifyInstance) {
+  // e.g. { "status": "sent", "attempts": 1, "message_id": "...", ... }
+  fastify.get<{ Params: { id: string } }>('/api/outbox/:id', async (request, reply) => {
+    const entry = getOutboxEntry(request.params.id);
+    if (!entry) {
+      return reply.code(404).send({ error: 'Outbox entry not found' });
+    }
+    return entry;
+  });
+}
@@ -0,0 +1,65 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+import { sendDraft } from './drafts';
+import { attemptDelivery, enqueueEmail, getOutboxEntry } from './outbox';
+import { getMessageTracking } from './tracking-analytics';
+
+// Stand-in for the Nylas send and draft endpoints
+let server: ReturnType<typeof Bun.serve>;
+let created = 0;
+
+beforeAll(() => {
+  server = Bun.serve({
+    port: 3199,
+    fetch(request) {
+      const { pathname } = new URL(request.url);
+      if (request.method === 'GET') {
+        // A draft read back before sending
+        return Response.json({ data: { id: pathname.split('/').pop(), subject: 'Report' } });
+      }
+      const id = pathname.endsWith('/drafts') ? `draft-${++created}` : `message-${++created}`;
+      return Response.json({ data: { id, subject: 'Report' } });
+    }
+  });
+});
+
+afterAll(() => {
+  server.stop(true);
+});
+
+const email = { to: [{ email: 'ada@example.com' }], subject: 'Report', body: '<p>Numbers</p>' };
+
+describe('attemptDelivery', () => {
+  test('marks a sent email sent and records it for tracking', async () => {
+    const entry = enqueueEmail('test-grant', { ...email, tracking_options: { opens: true, label: 'report' } }, []);
+    const { entry: sent } = await attemptDelivery(entry.id);
+
+    expect(sent.status).toBe('sent');
+    expect(sent.message_id).toStartWith('message-');
+    expect(sent.draft_id).toBeNull();
+    expect(getMessageTracking(sent.message_id!)).not.toBeNull();
+  });
+
+  test('keeps a created draft apart from sent messages', async () => {
+    const entry = enqueueEmail('test-grant', { ...email, send_draft: false, tracking_options: { opens: true } }, []);
+    const { entry: drafted } = await attemptDelivery(entry.id);
+
+    expect(drafted.status).toBe('drafted');
+    expect(drafted.draft_id).toStartWith('draft-');
+    expect(drafted.message_id).toBeNull();
+    expect(drafted.sent_at).toBeNull();
+    expect(getMessageTracking(drafted.draft_id!)).toBeNull();
+  });
+});
+
+describe('sendDraft', () => {
+  test('marks the outbox entry sent and records the message for tracking', async () => {
+    const entry = enqueueEmail('test-grant', { ...email, send_draft: false, tracking_options: { opens: true, label: 'review' } }, []);
+    const { entry: drafted } = await attemptDelivery(entry.id);
+
+    const message = await sendDraft('test-grant', drafted.draft_id!);
+    const sent = getOutboxEntry(entry.id)!;
+    expect(sent.status).toBe('sent');
+    expect(sent.message_id).toBe(message.id);
+    expect(getMessageTracking(message.id)).toMatchObject({ label: 'review' });
+  });
+});
@@ -0,0 +1,489 @@
+/**
+ * Nylas Pub/Sub Integration - Outbox
+ *
+ * Every email is written to a SQLite outbox before Nylas is called, so a
+ * slow or unavailable API does not lose it. Immediate sends are attempted
+ * right away; scheduled sends (`send_at`) and transient failures are picked
+ * up by a worker that retries with exponential backoff. Delivery status
+ * follows the message.send_success and message.send_failed notifications.
+ *
+ * Statuses: scheduled -> queued -> sending -> sent -> delivered, or failed.
+ *
+ * @license MIT
+ * @copyright Copyright (c) 2025 Aemal Sayer
+ */
+
+import crypto from 'crypto';
+import axios from 'axios';
+import { config } from './config';
+import { db } from './database';
+import { buildSendRequest, type Attachment } from './email-attachments';
+import { resolveGrant, GrantUnavailableError } from './grant-registry';
+import { getLogger } from './logger';
+import { dispatcher } from './notification-dispatcher';
+import { recordTrackedMessage } from './tracking-analytics';
+import type { EmailRecipient, SendEmailRequest } from './types';
+
+const MAX_ATTEMPTS = config.outbox.maxAttempts;
+const BASE_DELAY_MS = config.outbox.baseDelayMs;
+const MAX_DELAY_MS = 30 * 60 * 1000;
+const POLL_INTERVAL_MS = config.outbox.pollIntervalMs;
+const REQUEST_TIMEOUT_MS = 30000;
+
+export type OutboxStatus = 'scheduled' | 'queued' | 'sending' | 'sent' | 'drafted' | 'delivered' | 'failed';
+
+// An outbox entry as returned by the API
+export interface OutboxEntry {
+  id: string;
+  grant_id: string;
+  status: OutboxStatus;
+  subject: string;
+  to: EmailRecipient[];
+  attachment_count: number;
+  send_at: string | null;
+  attempts: number;
+  next_attempt_at: string | null;
+  last_error: string | null;
+  message_id: string | null;
+  draft_id: string | null; // Set instead of message_id for `send_draft: false`
+  created_at: string;
+  updated_at: string;
+  sent_at: string | null;
+  delivered_at: string | null;
+}
+
+interface OutboxRow {
+  id: string;
+  grant_id: string;
+  status: OutboxStatus;
+  request_json: string;
+  attachments_json: string;
+  send_at: number | null;
+  attempts: number;
+  next_attempt_at: number | null;
+  last_error: string | null;
+  message_id: string | null;
+  draft_id: string | null;
+  created_at: number;
+  updated_at: number;
+  sent_at: number | null;
+  delivered_at: number | null;
+}
+
+// Attachments are kept base64-encoded until they are sent
+interface StoredAttachment {
+  filename: string;
+  contentType: string;
+  content: string;
+  contentId?: string;
+}
+
+export interface DeliveryResult {
+  entry: OutboxEntry;
+  error?: unknown; // Set when the attempt failed
+}
+
+/**
+ * Thrown when a send request cannot be queued
+ */
+export class OutboxError extends Error {
+  constructor(
+    public readonly statusCode: number,
+    message: string
+  ) {
+    super(message);
+    this.name = 'OutboxError';
+  }
+}
+
+db.exec(`
+  CREATE TABLE IF NOT EXISTS outbox (
+    id TEXT PRIMARY KEY,
+    grant_id TEXT NOT NULL,
+    status TEXT NOT NULL,
+    request_json TEXT NOT NULL,
+    attachments_json TEXT NOT NULL,
+    send_at INTEGER,
+    attempts INTEGER NOT NULL DEFAULT 0,
+    next_attempt_at INTEGER,
+    last_error TEXT,
+    message_id TEXT,
+    draft_id TEXT,
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL,
+    sent_at INTEGER,
+    delivered_at INTEGER
+  );
+  CREATE INDEX IF NOT EXISTS outbox_due ON outbox (status, next_attempt_at);
+  CREATE INDEX IF NOT EXISTS outbox_message ON outbox (message_id);
+`);
+
+// Databases created before drafts were told apart from sent messages
+const outboxColumns = db.prepare('PRAGMA table_info(outbox)').all() as { name: string }[];
+if (!outboxColumns.some((column) => column.name === 'draft_id')) {
+  db.exec('ALTER TABLE outbox ADD COLUMN draft_id TEXT');
+}
+
+const insertEntry = db.prepare(`
+  INSERT INTO outbox (id, grant_id, status, request_json, attachments_json, send_at, next_attempt_at, created_at, updated_at)
+  VALUES ($id, $grant_id, $status, $request_json, $attachments_json, $send_at, $next_attempt_at, $now, $now)
+`);
+
+const selectEntry = db.prepare('SELECT * FROM outbox WHERE id = $id');
+
+// Claim due entries so no other attempt picks them up
+const claimDue = db.prepare(`
+  UPDATE outbox SET status = 'sending', updated_at = $now
+  WHERE id IN (
+    SELECT id FROM outbox
+    WHERE status IN ('scheduled', 'queued') AND next_attempt_at <= $now
+    ORDER BY next_attempt_at LIMIT 10
+  )
+  RETURNING id
+`);
+
+const markSent = db.prepare(`
+  UPDATE outbox
+  SET status = 'sent', attempts = attempts + 1, message_id = $message_id, last_error = NULL,
+      next_attempt_at = NULL, sent_at = $now, updated_at = $now
+  WHERE id = $id
+`);
+
+// A draft was created for review; nothing has been sent
+const markDrafted = db.prepare(`
+  UPDATE outbox
+  SET status = 'drafted', attempts = attempts + 1, draft_id = $draft_id, last_error = NULL,
+      next_attempt_at = NULL, updated_at = $now
+  WHERE id = $id
+`);
+
+// The reviewed draft was sent, so delivery notifications can find it
+const markDraftSentRow = db.prepare(`
+  UPDATE outbox
+  SET status = 'sent', message_id = $message_id, sent_at = $now, updated_at = $now
+  WHERE draft_id = $draft_id AND status = 'drafted'
+  RETURNING *
+`);
+
+const markRetry = db.prepare(`
+  UPDATE outbox
+  SET status = 'queued', attempts = attempts + 1, last_error = $error, next_attempt_at = $next_attempt_at, updated_at = $now
+  WHERE id = $id
+`);
+
+const markFailed = db.prepare(`
+  UPDATE outbox
+  SET status = 'failed', attempts = attempts + $counted, last_error = $error, next_attempt_at = NULL, updated_at = $now
+  WHERE id = $id
+`);
+
+// Status reported by Nylas after the send was accepted
+const markDelivery = db.prepare(`
+  UPDATE outbox
+  SET status = $status, last_error = $error, delivered_at = $delivered_at, updated_at = $now
+  WHERE message_id = $message_id AND status IN ('sent', 'delivered', 'failed')
+  RETURNING id
+`);
+
+// Entries that were being sent when the process stopped are retried
+// (at-least-once: Nylas may already have accepted them)
+const resetInterrupted = db.prepare(
+  "UPDATE outbox SET status = 'queued', next_attempt_at = $now, updated_at = $now WHERE status = 'sending'"
+);
+
+function toIso(timestamp: number | null): string | null {
+  return timestamp === null ? null : new Date(timestamp).toISOString();
+}
+
+function toEntry(row: OutboxRow): OutboxEntry {
+  const request = JSON.parse(row.request_json) as SendEmailRequest;
+  return {
+    id: row.id,
+    grant_id: row.grant_id,
+    status: row.status,
+    subject: request.subject,
+    to: request.to,
+    attachment_count: (JSON.parse(row.attachments_json) as StoredAttachment[]).length,
+    send_at: toIso(row.send_at),
+    attempts: row.attempts,
+    next_attempt_at: toIso(row.next_attempt_at),
+    last_error: row.last_error,
+    message_id: row.message_id,
+    draft_id: row.draft_id,
+    created_at: toIso(row.created_at)!,
+    updated_at: toIso(row.updated_at)!,
+    sent_at: toIso(row.sent_at),
+    delivered_at: toIso(row.delivered_at)
+  };
+}
+
+function getRow(id: string): OutboxRow | null {
+  return (selectEntry.get({ $id: id }) as OutboxRow | null) ?? null;
+}
+
+export function getOutboxEntry(id: string): OutboxEntry | null {
+  const row = getRow(id);
+  return row ? toEntry(row) : null;
+}
+
+/**
+ * Parse `send_at` (Unix seconds, as in the Nylas API, or an ISO 8601 string)
+ * into milliseconds; returns undefined when it is not set
+ */
+export function parseSendAt(value: SendEmailRequest['send_at']): number | undefined {
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+  const timestamp = typeof value === 'number' ? value * 1000 : Date.parse(value);
+  if (!Number.isFinite(timestamp)) {
+    throw new OutboxError(400, '"send_at" must be a Unix timestamp in seconds or an ISO 8601 date');
+  }
+  return timestamp;
+}
+
+function toRecipients(recipients: EmailRecipient[]) {
+  return recipients.map((recipient) => ({ email: recipient.email, name: recipient.name || '' }));
+}
+
+/**
+ * The message fields Nylas expects, taken from a send request
+ */
+export function buildMessagePayload(emailRequest: SendEmailRequest): Record<string, unknown> {
+  const payload: Record<string, unknown> = {
+    to: toRecipients(emailRequest.to),
+    subject: emailRequest.subject,
+    body: emailRequest.body
+  };
+
+  // Add optional fields if present
+  if (emailRequest.cc && emailRequest.cc.length > 0) {
+    payload.cc = toRecipients(emailRequest.cc);
+  }
+  if (emailRequest.bcc && emailRequest.bcc.length > 0) {
+    payload.bcc = toRecipients(emailRequest.bcc);
+  }
+  if (emailRequest.reply_to && emailRequest.reply_to.length > 0) {
+    payload.reply_to = toRecipients(emailRequest.reply_to);
+  }
+  if (emailRequest.tracking_options) {
+    payload.tracking_options = emailRequest.tracking_options;
+  }
+  if (emailRequest.reply_to_message_id) {
+    payload.reply_to_message_id = emailRequest.reply_to_message_id;
+  }
+  return payload;
+}
+
+/**
+ * Store an email in the outbox. Entries with a future `sendAt` wait for the
+ * worker; others are claimed for the caller to send right away with attemptDelivery().
+ */
+export function enqueueEmail(
+  grantId: string,
+  emailRequest: SendEmailRequest,
+  attachments: Attachment[],
+  sendAt?: number
+): OutboxEntry {
+  const now = Date.now();
+  const scheduled = sendAt !== undefined && sendAt > now;
+  const id = crypto.randomUUID();
+
+  // Attachments are stored separately; the request keeps only message fields
+  const { attachments: _inline, ...request } = emailRequest;
+  const stored: StoredAttachment[] = attachments.map((attachment) => ({
+    filename: attachment.filename,
+    contentType: attachment.contentType,
+    content: attachment.content.toString('base64'),
+    contentId: attachment.contentId
+  }));
+
+  insertEntry.run({
+    $id: id,
+    $grant_id: grantId,
+    $status: scheduled ? 'scheduled' : 'sending',
+    $request_json: JSON.stringify(request),
+    $attachments_json: JSON.stringify(stored),
+    $send_at: sendAt ?? null,
+    $next_attempt_at: scheduled ? sendAt : null,
+    $now: now
+  });
+
+  if (scheduled) {
+    getLogger().info(`🗓️ Email ${id} scheduled for ${new Date(sendAt).toISOString()}`);
+  }
+  return getOutboxEntry(id)!;
+}
+
+// Network errors, timeouts, 5xx, 408 and 429 are worth retrying
+function isTransient(error: unknown): boolean {
+  if (!axios.isAxiosError(error)) {
+    return false;
+  }
+  const status = error.response?.status;
+  return !status || status >= 500 || status === 408 || status === 429;
+}
+
+function describeError(error: unknown): string {
+  if (axios.isAxiosError(error) && error.response) {
+    return `HTTP ${error.response.status}: ${error.response.data?.error?.message || error.response.data?.message || error.message}`;
+  }
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Send a claimed entry to Nylas. Transient failures are queued for retry
+ * with exponential backoff; other failures mark the entry failed.
+ */
+export async function attemptDelivery(id: string): Promise<DeliveryResult> {
+  const row = getRow(id);
+  if (!row) {
+    throw new Error(`Outbox entry ${id} not found`);
+  }
+
+  const emailRequest = JSON.parse(row.request_json) as SendEmailRequest;
+  const attachments: Attachment[] = (JSON.parse(row.attachments_json) as StoredAttachment[]).map((stored) => ({
+    filename: stored.filename,
+    contentType: stored.contentType,
+    content: Buffer.from(stored.content, 'base64'),
+    contentId: stored.contentId
+  }));
+
+  try {
+    // The grant may have expired or been revoked since the email was queued
+    const grantId = resolveGrant(row.grant_id);
+    const path = emailRequest.send_draft === false ? 'drafts' : 'messages/send';
+    const { data, headers } = buildSendRequest(buildMessagePayload(emailRequest), attachments);
+
+    const response = await axios.post(`${config.nylas.apiUri}/v3/grants/${grantId}/${path}`, data, {
+      timeout: REQUEST_TIMEOUT_MS,
+      headers: {
+        ...headers,
+        'Authorization': `Bearer ${config.nylas.apiKey}`,
+        'Accept': 'application/json'
+      }
+    });
+
+    const createdId = response.data?.data?.id ?? response.data?.id ?? null;
+    if (path === 'drafts') {
+      markDrafted.run({ $id: id, $draft_id: createdId, $now: Date.now() });
+      getLogger().info(`📝 Email ${id} saved as draft ${createdId} (attempt ${row.attempts + 1})`);
+      return { entry: getOutboxEntry(id)! };
+    }
+
+    const messageId = createdId;
+    markSent.run({ $id: id, $message_id: messageId, $now: Date.now() });
+    // Opens, clicks and replies are reported against the sent message
+    if (messageId && emailRequest.tracking_options) {
+      recordTrackedMessage({
+        message_id: messageId,
+        grant_id: grantId,
+        subject: emailRequest.subject,
+        tracking_options: emailRequest.tracking_options,
+        sent_at: Date.now()
+      });
+    }
+    getLogger().info(`✅ Email ${id} sent (attempt ${row.attempts + 1}), message ID: ${messageId}`);
+    return { entry: getOutboxEntry(id)! };
+  } catch (error) {
+    const message = describeError(error);
+    const attempt = row.attempts + 1;
+
+    if (isTransient(error) && attempt < MAX_ATTEMPTS) {
+      const delay = Math.min(BASE_DELAY_MS * 2 ** (attempt - 1), MAX_DELAY_MS);
+      markRetry.run({ $id: id, $error: message, $next_attempt_at: Date.now() + delay, $now: Date.now() });
+      getLogger().warn(`⚠️ Email ${id} failed (${message}), retrying in ${delay}ms`);
+    } else {
+      // A refused grant never reached Nylas, so it does not count as an attempt
+      markFailed.run({ $id: id, $error: message, $counted: error instanceof GrantUnavailableError ? 0 : 1, $now: Date.now() });
+      getLogger().error(`❌ Email ${id} failed after ${attempt} attempt(s): ${message}`);
+    }
+    return { entry: getOutboxEntry(id)!, error };
+  }
+}
+
+/**
+ * Mark the outbox entry that created a draft as sent, once the draft is sent.
+ * Returns null for drafts that were not created through the outbox.
+ */
+export function markDraftSent(draftId: string, messageId: string): OutboxEntry | null {
+  const row = markDraftSentRow.get({ $draft_id: draftId, $message_id: messageId, $now: Date.now() }) as OutboxRow | null;
+  return row ? toEntry(row) : null;
+}
+
+/**
+ * The request an outbox entry was queued with (without attachments)
+ */
+export function getOutboxRequest(id: string): SendEmailRequest | null {
+  const row = getRow(id);
+  return row ? (JSON.parse(row.request_json) as SendEmailRequest) : null;
+}
+
+let worker: ReturnType<typeof setInterval> | null = null;
+let polling = false;
+
+async function processDue(): Promise<void> {
+  // Skip a tick while the previous batch is still sending
+  if (polling) {
+    return;
+  }
+  polling = true;
+  try {
+    const due = claimDue.all({ $now: Date.now() }) as { id: string }[];
+    for (const { id } of due) {
+      await attemptDelivery(id);
+    }
+  } catch (error) {
+    getLogger().error({ err: error }, '❌ Outbox worker error');
+  } finally {
+    polling = false;
+  }
+}
+
+/**
+ * Start sending scheduled and retried emails in the background
+ */
+export function startOutboxWorker(): void {
+  if (worker) {
+    return;
+  }
+  const { changes } = resetInterrupted.run({ $now: Date.now() });
+  if (changes > 0) {
+    getLogger().warn(`⚠️ Requeued ${changes} email(s) that were being sent when the server stopped`);
+  }
+  worker = setInterval(processDue, POLL_INTERVAL_MS);
+  worker.unref();
+}
+
+export function stopOutboxWorker(): void {
+  if (worker) {
+    clearInterval(worker);
+    worker = null;
+  }
+}
+
+// Delivery status reported by Nylas for messages it accepted
+dispatcher.on('message.send_success', (notification) => {
+  const updated = markDelivery.all({
+    $message_id: notification.data.object.id,
+    $status: 'delivered',
+    $error: null,
+    $delivered_at: Date.now(),
+    $now: Date.now()
+  }) as { id: string }[];
+  for (const { id } of updated) {
+    getLogger().info(`📬 Email ${id} delivered`);
+  }
+}, 'outbox-delivery');
+
+dispatcher.on('message.send_failed', (notification) => {
+  const updated = markDelivery.all({
+    $message_id: notification.data.object.id,
+    $status: 'failed',
+    $error: 'Nylas reported that the send failed (message.send_failed)',
+    $delivered_at: null,
+    $now: Date.now()
+  }) as { id: string }[];
+  for (const { id } of updated) {
+    getLogger().error(`❌ Email ${id} was not delivered`);
+  }
+}, 'outbox-delivery');
@@ -0,0 +1,61 @@
+import fs from 'fs';
+import path from 'path';
+import { describe, expect, test } from 'bun:test';
+import { importJWK, SignJWT, type JWTPayload } from 'jose';
+import { verifyPubSubToken } from './pubsub-auth';
+
+// Written by test-setup.ts next to PUBSUB_JWKS_FILE
+const privateKeyFile = path.join(path.dirname(process.env.PUBSUB_JWKS_FILE!), 'private-key.json');
+const privateKey = await importJWK(JSON.parse(fs.readFileSync(privateKeyFile, 'utf-8')), 'ES256');
+
+const EMAIL = 'push@test-project.iam.gserviceaccount.com';
+
+/**
+ * A push token as Google would send it, with the given claims changed
+ */
+async function token(claims: JWTPayload = {}, options: { expiresAt?: number; key?: CryptoKey } = {}): Promise<string> {
+  const now = Math.floor(Date.now() / 1000);
+  return new SignJWT({
+    iss: 'https://accounts.google.com',
+    aud: 'https://push.test/pubsub/nylas',
+    email: EMAIL,
+    email_verified: true,
+    ...claims
+  })
+    .setProtectedHeader({ alg: 'ES256', kid: 'test-key' })
+    .setIssuedAt(now - 60)
+    .setExpirationTime(options.expiresAt ?? now + 3600)
+    .sign(options.key ?? privateKey);
+}
+
+describe('verifyPubSubToken', () => {
+  test('verifies a token signed with a key in the JWKS', async () => {
+    expect(await verifyPubSubToken(`Bearer ${await token()}`)).toEqual({ status: 'verified', email: EMAIL });
+  });
+
+  test.each([
+    ['a wrong audience', { aud: 'https://elsewhere.test' }, 'aud'],
+    ['a wrong issuer', { iss: 'https://evil.test' }, 'iss'],
+    ['another service account', { email: 'other@test-project.iam.gserviceaccount.com' }, 'unexpected service account'],
+    ['an unverified email', { email_verified: false }, 'not verified']
+  ])('rejects %s', async (_, claims, reason) => {
+    const result = await verifyPubSubToken(`Bearer ${await token(claims)}`);
+    expect(result.status).toBe('rejected');
+    expect(result).toMatchObject({ reason: expect.stringContaining(reason) });
+  });
+
+  test('rejects an expired token', async () => {
+    const result = await verifyPubSubToken(`Bearer ${await token({}, { expiresAt: Math.floor(Date.now() / 1000) - 600 })}`);
+    expect(result).toMatchObject({ status: 'rejected', reason: expect.stringContaining('ERR_JWT_EXPIRED') });
+  });
+
+  test('rejects a token signed with another key', async () => {
+    const { privateKey: otherKey } = await crypto.subtle.generateKey({ name: 'ECDSA', namedCurve: 'P-256' }, true, ['sign', 'verify']);
+    const result = await verifyPubSubToken(`Bearer ${await token({}, { key: otherKey })}`);
+    expect(result.status).toBe('rejected');
+  });
+
+  test.each([undefined, '', 'Basic dXNlcjpwYXNz', 'Bearer'])('rejects a missing bearer token (%p)', async (authorization) => {
+    expect(await verifyPubSubToken(authorization)).toEqual({ status: 'rejected', reason: 'missing bearer token' });
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * Nylas Pub/Sub Integration - Pub/Sub Push Authentication
+ * 
+ * Verifies the OIDC bearer token Google Pub/Sub attaches to push requests:
+ * signature (against a JWKS), audience, issuer and service-account email.
+ * Enable with PUBSUB_VERIFY_TOKEN=true. The JWKS is fetched from Google by
+ * default, or loaded from PUBSUB_JWKS_FILE for offline testing.
+ * 
+ * @license MIT
+ * @copyright Copyright (c) 2025 Aemal Sayer
+ */
+
+import fs from 'fs';
+import { createLocalJWKSet, createRemoteJWKSet, errors, jwtVerify, type JWTPayload } from 'jose';
+import { config } from './config';
+
+export const PUBSUB_VERIFY_TOKEN = config.pubsub.verifyToken;
+
+const audience = config.pubsub.audience;
+const serviceAccountEmail = config.pubsub.serviceAccountEmail || '';
+const issuers = config.pubsub.issuers;
+
+// Google push tokens are OIDC ID tokens with the service account's email claims
+interface PubSubTokenPayload extends JWTPayload {
+  email?: string;
+  email_verified?: boolean;
+}
+
+function loadKeySet() {
+  if (config.pubsub.jwksFile) {
+    return createLocalJWKSet(JSON.parse(fs.readFileSync(config.pubsub.jwksFile, 'utf-8')));
+  }
+  return createRemoteJWKSet(new URL(config.pubsub.jwksUrl));
+}
+
+const keySet = PUBSUB_VERIFY_TOKEN ? loadKeySet() : null;
+
+export type PubSubAuthResult =
+  | { status: 'verified'; email: string }
+  | { status: 'skipped' }
+  | { status: 'rejected'; reason: string };
+
+/**
+ * Verify the Authorization header of a Pub/Sub push request
+ */
+export async function verifyPubSubToken(authorization: string | undefined): Promise<PubSubAuthResult> {
+  if (!PUBSUB_VERIFY_TOKEN || !keySet) {
+    return { status: 'skipped' };
+  }
+
+  const match = authorization?.match(/^Bearer\s+(.+)$/i);
+  if (!match) {
+    return { status: 'rejected', reason: 'missing bearer token' };
+  }
+
+  try {
+    const { payload } = await jwtVerify<PubSubTokenPayload>(match[1]!, keySet, {
+      audience,
+      issuer: issuers
+    });
+
+    if (payload.email !== serviceAccountEmail) {
+      return { status: 'rejected', reason: `unexpected service account ${payload.email || '(none)'}` };
+    }
+    if (payload.email_verified !== true) {
+      return { status: 'rejected', reason: 'service account email is not verified' };
+    }
+
+    return { status: 'verified', email: serviceAccountEmail };
+  } catch (error) {
+    if (error instanceof errors.JOSEError) {
+      return { status: 'rejected', reason: `${error.code}: ${error.message}` };
+    }
+    throw error;
+  }
+}
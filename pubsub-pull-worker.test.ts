@@ -0,0 +1,75 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+import { dispatcher } from './notification-dispatcher';
+import { getPendingDeadLetter } from './notification-store';
+import { PubSubPullWorker } from './pubsub-pull-worker';
+import { buildNotification } from './simulate';
+
+// Stand-in for the Pub/Sub emulator: the first pull returns the queued messages
+let server: ReturnType<typeof Bun.serve>;
+let pending: object[] = [];
+const calls: { method: string; body: Record<string, unknown> }[] = [];
+
+beforeAll(() => {
+  server = Bun.serve({
+    port: 3199,
+    async fetch(request) {
+      const method = new URL(request.url).pathname.split(':').pop()!;
+      const body = (await request.json()) as Record<string, unknown>;
+      if (method !== 'pull') {
+        calls.push({ method, body });
+        return Response.json({});
+      }
+      const receivedMessages = pending.splice(0);
+      if (receivedMessages.length === 0) {
+        await Bun.sleep(20);
+      }
+      return Response.json({ receivedMessages });
+    }
+  });
+});
+
+afterAll(() => {
+  server.stop(true);
+});
+
+function received(ackId: string, data: unknown) {
+  const encoded = Buffer.from(typeof data === 'string' ? data : JSON.stringify(data)).toString('base64');
+  return { ackId, message: { data: encoded, messageId: `pubsub-${ackId}` } };
+}
+
+describe('PubSubPullWorker', () => {
+  test('acknowledges handled messages and releases failed ones for redelivery', async () => {
+    const failing = buildNotification('folder.deleted', { grantId: 'test-grant' });
+    const unsubscribe = dispatcher.on('folder.deleted', () => {
+      throw new Error('downstream unavailable');
+    }, 'test-pull-failure');
+    pending = [
+      received('ack-ok', buildNotification('folder.created', { grantId: 'test-grant' })),
+      received('ack-fail', failing),
+      received('ack-not-json', 'not json')
+    ];
+
+    const worker = new PubSubPullWorker({ projectId: 'test-project', subscription: 'nylas', ackDeadlineSeconds: 30 });
+    worker.start();
+    for (let waited = 0; worker.stats.acked + worker.stats.nacked < 3 && waited < 2000; waited += 10) {
+      await Bun.sleep(10);
+    }
+    await worker.stop();
+    unsubscribe();
+
+    expect(worker.stats).toEqual({ received: 3, acked: 2, nacked: 1 });
+    const acked = calls.filter((call) => call.method === 'acknowledge').flatMap((call) => call.body.ackIds as string[]);
+    expect(acked.sort()).toEqual(['ack-not-json', 'ack-ok']);
+    // A zero deadline makes Pub/Sub redeliver the failed message right away
+    expect(calls).toContainEqual({ method: 'modifyAckDeadline', body: { ackIds: ['ack-fail'], ackDeadlineSeconds: 0 } });
+    expect(getPendingDeadLetter(failing.id)?.failed_handlers).toEqual(['test-pull-failure']);
+  });
+
+  test('stops without waiting for the pull in progress', async () => {
+    const worker = new PubSubPullWorker({ projectId: 'test-project', subscription: 'nylas' });
+    worker.start();
+    await Bun.sleep(5);
+    await worker.stop();
+    expect(worker.stats.received).toBe(0);
+  });
+});
@@ -0,0 +1,159 @@
+/**
+ * Nylas Pub/Sub Integration - Pub/Sub Pull Worker
+ *
+ * A long-running pull consumer that talks to the Pub/Sub REST API directly
+ * (or to the emulator when PUBSUB_EMULATOR_HOST is set). Messages go through
+ * the same processing path as /pubsub/nylas and are only acknowledged after
+ * they were handled successfully. Leases are extended while a message is
+ * being processed, and stop() lets in-flight messages finish.
+ *
+ * @license MIT
+ * @copyright Copyright (c) 2025 Aemal Sayer
+ */
+
+import axios from 'axios';
+import { GoogleAuth } from 'google-auth-library';
+import { config } from './config';
+import { logger, withLogger } from './logger';
+import { processPubSubMessage } from './notification-processor';
+import type { PubSubMessage } from './types';
+
+export interface PullWorkerOptions {
+  projectId: string;
+  subscription: string;
+  maxMessages?: number; // Messages requested per pull
+  ackDeadlineSeconds?: number; // Lease length requested when extending
+}
+
+// A message as returned by the REST pull method
+interface ReceivedMessage {
+  ackId: string;
+  message: PubSubMessage['message'];
+  deliveryAttempt?: number;
+}
+
+const PULL_ERROR_BACKOFF_MS = [1000, 2000, 5000, 10000, 30000];
+
+export class PubSubPullWorker {
+  private running = false;
+  private pullAbort: AbortController | null = null;
+  private inFlight = new Set<Promise<void>>();
+  private loop: Promise<void> | null = null;
+  private auth: GoogleAuth | null;
+  private baseUrl: string;
+  private maxMessages: number;
+  private ackDeadlineSeconds: number;
+
+  stats = { received: 0, acked: 0, nacked: 0 };
+
+  constructor(private options: PullWorkerOptions) {
+    const emulatorHost = config.pubsub.emulatorHost;
+    this.baseUrl = emulatorHost ? `http://${emulatorHost}/v1` : 'https://pubsub.googleapis.com/v1';
+    // The emulator does not check credentials
+    this.auth = emulatorHost ? null : new GoogleAuth({ scopes: ['https://www.googleapis.com/auth/pubsub'] });
+    this.maxMessages = options.maxMessages ?? 10;
+    this.ackDeadlineSeconds = options.ackDeadlineSeconds ?? 60;
+  }
+
+  private get subscriptionPath(): string {
+    return `projects/${this.options.projectId}/subscriptions/${this.options.subscription}`;
+  }
+
+  private async call<T>(method: string, body: object, signal?: AbortSignal): Promise<T> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.auth) {
+      headers['Authorization'] = `Bearer ${await this.auth.getAccessToken()}`;
+    }
+    const response = await axios.post(`${this.baseUrl}/${this.subscriptionPath}:${method}`, body, { headers, signal });
+    return response.data as T;
+  }
+
+  private async modifyAckDeadline(ackIds: string[], seconds: number): Promise<void> {
+    await this.call('modifyAckDeadline', { ackIds, ackDeadlineSeconds: seconds });
+  }
+
+  private async handle(received: ReceivedMessage): Promise<void> {
+    const { ackId, message } = received;
+    this.stats.received++;
+
+    // Keep the lease alive while handlers run
+    const extendEveryMs = Math.max(this.ackDeadlineSeconds - 10, 5) * 1000;
+    const log = logger.child({ pubsub_message_id: message.messageId, delivery_attempt: received.deliveryAttempt ?? 1 });
+    const lease = setInterval(() => {
+      this.modifyAckDeadline([ackId], this.ackDeadlineSeconds).catch((error) => {
+        log.warn({ err: error }, '⚠️ Failed to extend ack deadline');
+      });
+    }, extendEveryMs);
+
+    try {
+      log.info('📥 Pulled message');
+      await withLogger(log, () => processPubSubMessage(message));
+      await this.call('acknowledge', { ackIds: [ackId] });
+      this.stats.acked++;
+    } catch (error) {
+      // Make the message available for redelivery right away
+      this.stats.nacked++;
+      log.error({ err: error }, '❌ Failed to process message, leaving it unacknowledged');
+      await this.modifyAckDeadline([ackId], 0).catch(() => undefined);
+    } finally {
+      clearInterval(lease);
+    }
+  }
+
+  private async run(): Promise<void> {
+    let consecutiveErrors = 0;
+
+    while (this.running) {
+      this.pullAbort = new AbortController();
+      try {
+        const { receivedMessages = [] } = await this.call<{ receivedMessages?: ReceivedMessage[] }>(
+          'pull',
+          { maxMessages: this.maxMessages },
+          this.pullAbort.signal
+        );
+        consecutiveErrors = 0;
+
+        for (const received of receivedMessages) {
+          const task = this.handle(received).finally(() => this.inFlight.delete(task));
+          this.inFlight.add(task);
+        }
+
+        // Don't pull more than we can handle at once
+        while (this.inFlight.size >= this.maxMessages) {
+          await Promise.race(this.inFlight);
+        }
+      } catch (error) {
+        if (!this.running) {
+          break;
+        }
+        const delay = PULL_ERROR_BACKOFF_MS[Math.min(consecutiveErrors, PULL_ERROR_BACKOFF_MS.length - 1)]!;
+        consecutiveErrors++;
+        logger.error({ err: error, subscription: this.subscriptionPath }, `❌ Pull failed, retrying in ${delay}ms`);
+        await new Promise((resolve) => setTimeout(resolve, delay));
+      }
+    }
+  }
+
+  start(): void {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+    logger.info({ subscription: this.subscriptionPath, base_url: this.baseUrl }, '📡 Pulling from Pub/Sub');
+    this.loop = this.run();
+  }
+
+  /**
+   * Stop pulling and wait for in-flight messages to be acknowledged (or released)
+   */
+  async stop(): Promise<void> {
+    if (!this.running) {
+      return;
+    }
+    this.running = false;
+    this.pullAbort?.abort();
+    await this.loop;
+    await Promise.allSettled(this.inFlight);
+    logger.info({ ...this.stats }, 'Pull worker stopped');
+  }
+}
@@ -2,101 +2,58 @@
 
 /**
  * Nylas Pub/Sub Integration - Message Puller Script
- * 
- * This script manually pulls messages from a Google Cloud Pub/Sub subscription.
- * It's an alternative to the push delivery method and can be useful for testing.
- * 
+ *
+ * This script runs a long-running pull consumer for a Google Cloud Pub/Sub
+ * subscription. Messages are processed exactly like pushes to /pubsub/nylas
+ * and acknowledged only after they were handled successfully, so no public
+ * push endpoint is needed.
+ *
+ * Set PUBSUB_EMULATOR_HOST (e.g. localhost:8085) to use the Pub/Sub emulator;
+ * otherwise Application Default Credentials are used
+ * (gcloud auth application-default login).
+ *
  * @license MIT
  * @copyright Copyright (c) 2025 Aemal Sayer
- * 
+ *
  * Run with: bun run pull-messages.ts
  */
 
-import { execSync } from 'child_process';
+import { config, requireSettings } from './config';
+import { logger } from './logger';
+import { PubSubPullWorker } from './pubsub-pull-worker';
+import './notification-handlers';
+import './grant-registry';
+import './outbox';
+import './calendar-mirror';
+import './inbox-rules';
+import './tracking-analytics';
+import './downstream-fanout';
+
+requireSettings('pull-messages', ['PUBSUB_PROJECT_ID']);
 
 // Configuration
-const PROJECT_ID = 'nylus-samantha'; // Your GCP project ID
-const SUBSCRIPTION_NAME = 'nylas-subscriber'; // Your pull subscription name
-const MAX_MESSAGES = 10; // Maximum number of messages to pull at once
+const PROJECT_ID = config.pubsub.projectId!; // Your GCP project ID
+const SUBSCRIPTION_NAME = config.pubsub.pullSubscription; // Your pull subscription name
+const MAX_MESSAGES = 10; // Maximum number of messages to process at once
+const ACK_DEADLINE_SECONDS = config.pubsub.ackDeadlineSeconds; // Lease length while a message is being processed
+
+logger.info({ project: PROJECT_ID, subscription: SUBSCRIPTION_NAME, max_messages: MAX_MESSAGES }, 'Pulling messages from Pub/Sub');
+
+const worker = new PubSubPullWorker({
+  projectId: PROJECT_ID,
+  subscription: SUBSCRIPTION_NAME,
+  maxMessages: MAX_MESSAGES,
+  ackDeadlineSeconds: ACK_DEADLINE_SECONDS
+});
+
+// Finish in-flight messages before exiting
+const shutdown = async (signal: string) => {
+  logger.info(`${signal} received, finishing in-flight messages...`);
+  await worker.stop();
+  process.exit(0);
+};
 
-console.log(`Pulling messages from Pub/Sub subscription: ${SUBSCRIPTION_NAME}`);
-console.log(`Project: ${PROJECT_ID}`);
-console.log(`Maximum messages: ${MAX_MESSAGES}`);
+process.once('SIGINT', () => shutdown('SIGINT'));
+process.once('SIGTERM', () => shutdown('SIGTERM'));
 
-try {
-  // Pull messages
-  const pullCommand = [
-    `gcloud pubsub subscriptions pull ${SUBSCRIPTION_NAME}`,
-    `--project=${PROJECT_ID}`,
-    `--auto-ack`,
-    `--limit=${MAX_MESSAGES}`,
-    `--format=json`
-  ].join(' ');
-  
-  console.log(`\nRunning: ${pullCommand}`);
-  const result = execSync(pullCommand).toString();
-  
-  if (!result || result.trim() === '[]') {
-    console.log('\nNo messages available in the subscription.');
-  } else {
-    try {
-      const messages = JSON.parse(result);
-      console.log(`\nReceived ${messages.length} message(s):`);
-      
-      messages.forEach((message: any, index: number) => {
-        console.log(`\n--- Message ${index + 1} ---`);
-        console.log(`Message ID: ${message.messageId}`);
-        console.log(`Publish Time: ${message.publishTime}`);
-        
-        if (message.attributes && Object.keys(message.attributes).length > 0) {
-          console.log('Attributes:');
-          for (const [key, value] of Object.entries(message.attributes)) {
-            console.log(`  ${key}: ${value}`);
-          }
-        }
-        
-        // Base64 decode and parse the message data
-        if (message.data) {
-          try {
-            const decodedData = Buffer.from(message.data, 'base64').toString('utf-8');
-            console.log('Message Data (decoded):');
-            
-            try {
-              // Try to parse as JSON
-              const jsonData = JSON.parse(decodedData);
-              console.log(JSON.stringify(jsonData, null, 2));
-            } catch (parseError) {
-              // If not JSON, just print the string
-              console.log(decodedData);
-            }
-          } catch (decodeError) {
-            console.log(`Unable to decode data: ${message.data}`);
-          }
-        } else {
-          console.log('No message data.');
-        }
-      });
-      
-      console.log('\nMessages have been acknowledged automatically.');
-    } catch (parseError) {
-      console.error('\nError parsing JSON response:');
-      console.error(parseError instanceof Error ? parseError.message : String(parseError));
-      console.log('Raw response:');
-      console.log(result);
-    }
-  }
-  
-} catch (error: unknown) {
-  console.error(`\nError pulling messages from Pub/Sub subscription:`);
-  console.error(error instanceof Error ? error.message : String(error));
-  
-  // Check if subscription exists
-  try {
-    execSync(`gcloud pubsub subscriptions describe ${SUBSCRIPTION_NAME} --project=${PROJECT_ID}`);
-  } catch (subError) {
-    console.error(`\nSubscription "${SUBSCRIPTION_NAME}" does not exist. Create it with:`);
-    console.error(`gcloud pubsub subscriptions create ${SUBSCRIPTION_NAME} --topic=nylas-samantha --project=${PROJECT_ID}`);
-  }
-  
-  process.exit(1);
-} 
\ No newline at end of file
+worker.start();
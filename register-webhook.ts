@@ -1,73 +1,56 @@
-// Load environment variables
-const NYLAS_API_KEY = process.env.NYLAS_API_KEY;
-// Use the URL from the Postman request seen in the image
-const WEBHOOK_URL = process.env.WEBHOOK_URL || 'https://j5vpj7r6-3000.euw.devtunnels.ms/webhook/nylas';
-// Update to use your actual email address
-const NOTIFICATION_EMAIL = process.env.NOTIFICATION_EMAIL || 'your-email@gmail.com';
+// Register a webhook with the default trigger types.
+// Pass --write-env to store the webhook secret in .env (or .env.<APP_PROFILE> if it exists) instead of printing it.
+// For listing, updating, rotating or deleting webhooks use: bun run webhooks.ts
+import { config, requireSettings } from './config';
+import { createWebhook, defaultEnvFile, storeSecret } from './webhooks';
 
-if (!NYLAS_API_KEY) {
-  console.error('Missing NYLAS_API_KEY environment variable');
-  process.exit(1);
-}
+// Nylas must reach the webhook URL, so set WEBHOOK_URL (or PUBLIC_URL) to your public tunnel
+requireSettings('register-webhook', ['NYLAS_API_KEY', 'NOTIFICATION_EMAIL']);
+
+const WEBHOOK_URL = config.webhook.url;
+const NOTIFICATION_EMAIL = config.webhook.notificationEmail!;
 
 console.log('Registering webhook with Nylas...');
 console.log(`Webhook URL: ${WEBHOOK_URL}`);
-console.log(`Using API Key: ${NYLAS_API_KEY.substring(0, 10)}...`);
 console.log(`Notification Email: ${NOTIFICATION_EMAIL}`);
 
-interface NylasWebhookResponse {
-  id?: string;
-  webhook_secret?: string;
-  [key: string]: any;
-}
-
 async function registerWebhook() {
   try {
     // Update to include Google-specific trigger types for email notifications
     // Based on the Nylas documentation
-    const response = await fetch('https://api.us.nylas.com/v3/webhooks/', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${NYLAS_API_KEY}`
-      },
-      body: JSON.stringify({
-        trigger_types: [
-          // Grant-related triggers
-          "grant.created",
-          "grant.deleted",
-          "grant.expired",
-          
-          // Message-related triggers (requires gmail.readonly or gmail.modify scope)
-          "message.created",
-          "message.updated",
-          
-          // Message sending triggers (requires gmail.send scope)
-          "message.send_success",
-          "message.send_failed",
-        ],
-        description: "Google Email Webhook",
-        webhook_url: WEBHOOK_URL,
-        notification_email_addresses: [NOTIFICATION_EMAIL]
-      })
+    const webhook = await createWebhook({
+      trigger_types: [
+        // Grant-related triggers
+        "grant.created",
+        "grant.deleted",
+        "grant.expired",
+        
+        // Message-related triggers (requires gmail.readonly or gmail.modify scope)
+        "message.created",
+        "message.updated",
+        
+        // Message sending triggers (requires gmail.send scope)
+        "message.send_success",
+        "message.send_failed",
+      ],
+      description: "Google Email Webhook",
+      webhook_url: WEBHOOK_URL,
+      notification_email_addresses: [NOTIFICATION_EMAIL]
     });
     
-    const data = await response.json() as NylasWebhookResponse;
+    console.log('Webhook registered successfully!');
+    console.log('Webhook ID:', webhook.id);
     
-    if (response.ok) {
-      console.log('Webhook registered successfully!');
-      console.log('Webhook ID:', data.id);
-      console.log('Webhook Secret:', data.webhook_secret);
-      console.log('IMPORTANT: Save the webhook_secret for verifying incoming webhooks');
-      console.log('Full response:', JSON.stringify(data, null, 2));
+    if (webhook.webhook_secret && process.argv.includes('--write-env')) {
+      storeSecret(defaultEnvFile(), webhook.webhook_secret, false);
     } else {
-      console.error('Failed to register webhook:');
-      console.error(`Status: ${response.status} ${response.statusText}`);
-      console.error('Error details:', JSON.stringify(data, null, 2));
+      // Nylas returns the secret only once, so print it in full
+      console.log('Webhook Secret:', webhook.webhook_secret);
+      console.log('IMPORTANT: Save the webhook_secret for verifying incoming webhooks (or run with --write-env to store it in .env)');
     }
   } catch (error) {
-    console.error('Error registering webhook:', error);
+    console.error('Error registering webhook:', error instanceof Error ? error.message : error);
   }
 }
 
-registerWebhook(); 
\ No newline at end of file
+registerWebhook(); 
@@ -0,0 +1,69 @@
+/**
+ * Nylas Pub/Sub Integration - Inbox Rule Routes
+ *
+ * The loaded inbox rules with their counters, and a dry run of the rules
+ * against a message to see what would happen.
+ *
+ * @license MIT
+ * @copyright Copyright (c) 2025 Aemal Sayer
+ */
+
+import type { FastifyInstance } from 'fastify';
+import { config } from './config';
+import { applyRules, getRuleStatus } from './inbox-rules';
+import { getMessage } from './mailbox-mirror';
+import { messageObjectSchema } from './notification-schemas';
+
+interface RuleTestBody {
+  message_id?: string; // A message from the local mailbox mirror
+  message?: unknown; // Or a message object in the Nylas format
+  grant_id?: string;
+}
+
+export async function ruleRoutes(fastify: FastifyInstance) {
+  fastify.get('/api/rules', async () => {
+    const rules = getRuleStatus();
+    return { dry_run: config.rules.dryRun, data: rules, count: rules.length };
+  });
+
+  // Never runs any actions, e.g. { "message_id": "..." }
+  fastify.post<{ Body: RuleTestBody | undefined }>('/api/rules/test', async (request, reply) => {
+    const body = request.body ?? {};
+
+    let candidate: unknown = body.message;
+    let invalid = 'Send a "message_id" from the mailbox mirror or a "message" object';
+    if (body.message_id) {
+      const mirrored = getMessage(body.message_id);
+      if (!mirrored) {
+        return reply.code(404).send({ error: 'Message not found', id: body.message_id });
+      }
+      // The mirror does not keep attachments, so "has_attachment" sees none
+      candidate = {
+        id: mirrored.id,
+        grant_id: mirrored.grant_id ?? undefined,
+        subject: mirrored.subject ?? undefined,
+        from: mirrored.from,
+        to: mirrored.to,
+        cc: mirrored.cc,
+        bcc: mirrored.bcc,
+        folders: mirrored.folders,
+        unread: mirrored.unread
+      };
+      invalid = `Message ${body.message_id} in the mailbox mirror is not a valid message object`;
+    }
+
+    const result = messageObjectSchema.safeParse(candidate);
+    if (!result.success) {
+      return reply.code(400).send({
+        error: 'Invalid request',
+        message: invalid,
+        issues: result.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`)
+      });
+    }
+    const message = result.data;
+
+    const grantId = body.grant_id || message.grant_id || config.nylas.grantId || '';
+    const matches = await applyRules(message, grantId, { dryRun: true });
+    return { message_id: message.id, grant_id: grantId || null, matches };
+  });
+}
@@ -0,0 +1,263 @@
+/**
+ * Nylas Pub/Sub Integration - Send Routes
+ *
+ * Sending email: new messages through /api/send-email, and replies,
+ * reply-alls and forwards of existing messages. Everything goes through
+ * the outbox.
+ *
+ * @license MIT
+ * @copyright Copyright (c) 2025 Aemal Sayer
+ */
+
+import type { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
+import axios from 'axios';
+import { config } from './config';
+import {
+  AttachmentError,
+  checkAttachment,
+  checkTotalSize,
+  decodeAttachments,
+  readMultipartEmail,
+  type Attachment
+} from './email-attachments';
+import { renderTemplate, TemplateError } from './email-templates';
+import { GrantUnavailableError, resolveGrant } from './grant-registry';
+import { getMessage } from './mailbox-mirror';
+import { composeMessage, downloadAttachments, fetchMessage, type ComposeMode } from './message-compose';
+import { attemptDelivery, enqueueEmail, OutboxError, parseSendAt } from './outbox';
+import type { AttachmentInput, EmailRecipient, SendEmailRequest } from './types';
+
+// Body of the reply, reply-all and forward routes
+interface ComposeBody {
+  body?: string; // New text above the quoted original (HTML)
+  to?: EmailRecipient[]; // Required for forwards; added to the recipients of replies
+  cc?: EmailRecipient[];
+  bcc?: EmailRecipient[];
+  attachments?: AttachmentInput[];
+  include_attachments?: boolean; // Forward the original attachments (default: true)
+  grant_id?: string;
+  send_at?: number | string;
+  tracking_options?: SendEmailRequest['tracking_options'];
+}
+
+type ComposeRequest = FastifyRequest<{ Params: { id: string }; Body: ComposeBody | undefined }>;
+
+/**
+ * Store an email in the outbox and try to send it right away
+ */
+async function sendThroughOutbox(
+  reply: FastifyReply,
+  grantId: string,
+  emailRequest: SendEmailRequest,
+  attachments: Attachment[],
+  sendAt?: number
+) {
+  // Store the email in the outbox first, so it is not lost if Nylas is unavailable
+  const entry = enqueueEmail(grantId, emailRequest, attachments, sendAt);
+  if (entry.status === 'scheduled') {
+    return reply.code(202).send(entry);
+  }
+
+  // Send right away; transient failures stay queued and are retried by the outbox worker
+  const result = await attemptDelivery(entry.id);
+  if (result.entry.status === 'queued') {
+    return reply.code(202).send(result.entry);
+  }
+  if (result.error) {
+    throw result.error;
+  }
+
+  return result.entry;
+}
+
+/**
+ * Turn a failed send into the matching HTTP error response
+ */
+export function replyWithSendError(reply: FastifyReply, error: unknown) {
+  if (error instanceof AttachmentError) {
+    reply.log.warn(`❌ Refusing to send email: ${error.message}`);
+    return reply.code(error.statusCode).send({
+      error: 'Invalid attachment',
+      message: error.message
+    });
+  }
+
+  if (error instanceof TemplateError) {
+    return reply.code(error.statusCode).send({
+      error: 'Template error',
+      message: error.message
+    });
+  }
+
+  if (error instanceof OutboxError) {
+    return reply.code(error.statusCode).send({
+      error: 'Invalid request',
+      message: error.message
+    });
+  }
+
+  if (error instanceof GrantUnavailableError) {
+    reply.log.warn(`❌ Refusing to send email: ${error.message}`);
+    return reply.code(error.statusCode).send({
+      error: 'Grant unavailable',
+      grant_id: error.grantId,
+      message: error.message
+    });
+  }
+
+  // Handle Axios errors specially to extract useful info
+  if (axios.isAxiosError(error) && error.response) {
+    // The error serializer keeps the status and the Nylas error body (redacted)
+    reply.log.error({ err: error }, `❌ Error sending email: HTTP ${error.response.status} (${error.response.statusText})`);
+
+    // For Nylas API specific errors
+    if (error.response.status === 403) {
+      reply.log.error('Authorization error - invalid API key or grant ID; re-authorize the application to get a new grant ID');
+      return reply.code(403).send({
+        error: 'Nylas API authorization error',
+        message: 'Your Nylas API key or grant ID may be invalid, expired, or missing required permissions',
+        action: 'Re-authorize the application to get a new grant ID',
+        reauthorize_url: `${config.server.publicUrl}/auth/nylas/start`
+      });
+    }
+
+    return reply.code(error.response.status).send({
+      error: 'Nylas API error',
+      status: error.response.status,
+      message: error.response.data?.message || error.message
+    });
+  }
+
+  // Generic error handling
+  reply.log.error({ err: error }, '❌ Error sending email');
+  return reply.code(500).send({
+    error: 'Failed to send email',
+    message: error instanceof Error ? error.message : 'Unknown error'
+  });
+}
+
+export async function sendRoutes(fastify: FastifyInstance) {
+  // Room for the largest allowed attachments once base64-encoded
+  const bodyLimit = Math.ceil(config.attachments.maxTotalBytes * 4 / 3) + 1048576;
+
+  // Add a new endpoint for sending emails
+  // Accepts JSON (attachments as base64) or multipart/form-data (a "message" JSON field plus file parts)
+  fastify.post('/api/send-email', { bodyLimit }, async (request, reply) => {
+    try {
+      let emailRequest: SendEmailRequest;
+      let attachments: Attachment[];
+
+      if (request.isMultipart()) {
+        ({ emailRequest, attachments } = await readMultipartEmail(request));
+      } else {
+        emailRequest = request.body as SendEmailRequest;
+        attachments = decodeAttachments(emailRequest.attachments);
+      }
+
+      // Render a stored template into the subject and body (an explicit subject wins)
+      if (emailRequest.template) {
+        const rendered = renderTemplate(emailRequest.template, emailRequest.variables);
+        emailRequest = { ...emailRequest, subject: emailRequest.subject || rendered.subject, body: rendered.body };
+      }
+
+      // Validate required fields
+      if (!emailRequest.to || !emailRequest.subject || !emailRequest.body) {
+        return reply.code(400).send({
+          error: 'Missing required fields',
+          message: 'The fields "to", "subject", and "body" (or "template") are required'
+        });
+      }
+
+      // Check if there are recipients
+      if (!Array.isArray(emailRequest.to) || emailRequest.to.length === 0) {
+        return reply.code(400).send({
+          error: 'Invalid recipients',
+          message: 'The "to" field must be a non-empty array of email recipients'
+        });
+      }
+
+      // Pick the grant to send as (body field or X-Grant-Id header); expired and revoked grants are refused
+      const grantId = resolveGrant(emailRequest.grant_id || (request.headers['x-grant-id'] as string | undefined));
+      const sendAt = parseSendAt(emailRequest.send_at);
+
+      request.log.info({ grant_id: grantId, recipients: emailRequest.to.length, attachments: attachments.length }, '📧 Sending email');
+      request.log.debug(
+        {
+          to: emailRequest.to.map((r) => r.email),
+          subject: emailRequest.subject,
+          attachments: attachments.map((a) => a.filename)
+        },
+        'Email details'
+      );
+
+      return await sendThroughOutbox(reply, grantId, emailRequest, attachments, sendAt);
+    } catch (error) {
+      return replyWithSendError(reply, error);
+    }
+  });
+
+  // Reply, reply-all and forward an existing message, staying in its thread
+  const composeHandler = (mode: ComposeMode) =>
+    async (request: ComposeRequest, reply: FastifyReply) => {
+      try {
+        const input = request.body ?? {};
+        const attachments = decodeAttachments(input.attachments);
+
+        if (mode !== 'forward' && !input.body) {
+          return reply.code(400).send({ error: 'Missing required fields', message: 'The "body" field is required' });
+        }
+        if (mode === 'forward' && (!Array.isArray(input.to) || input.to.length === 0)) {
+          return reply.code(400).send({
+            error: 'Invalid recipients',
+            message: 'The "to" field must be a non-empty array of email recipients'
+          });
+        }
+
+        // Send as the mailbox that received the message, unless a grant is given
+        const mirrored = getMessage(request.params.id);
+        const grantId = resolveGrant(
+          input.grant_id || (request.headers['x-grant-id'] as string | undefined) || mirrored?.grant_id || undefined
+        );
+        const sendAt = parseSendAt(input.send_at);
+
+        const original = await fetchMessage(grantId, request.params.id);
+        const composed = await composeMessage(original, mode, input.body);
+
+        // Carry the original attachments along with a forward
+        if (mode === 'forward' && input.include_attachments !== false && original.attachments?.length) {
+          const forwarded = await downloadAttachments(original);
+          forwarded.forEach(checkAttachment);
+          attachments.unshift(...forwarded);
+          checkTotalSize(attachments);
+        }
+
+        const emailRequest: SendEmailRequest = {
+          to: mode === 'forward' ? input.to! : [...composed.to, ...(input.to ?? [])],
+          cc: [...composed.cc, ...(input.cc ?? [])],
+          bcc: input.bcc,
+          subject: composed.subject,
+          body: composed.body,
+          reply_to_message_id: composed.reply_to_message_id,
+          tracking_options: input.tracking_options
+        };
+
+        if (emailRequest.to.length === 0) {
+          return reply.code(400).send({
+            error: 'Invalid recipients',
+            message: 'The original message has no one to reply to; pass "to"'
+          });
+        }
+
+        request.log.info({ grant_id: grantId, message_id: original.id, recipients: emailRequest.to.length }, `📧 Sending ${mode}`);
+        request.log.debug({ to: emailRequest.to.map((r) => r.email), subject: emailRequest.subject }, 'Email details');
+
+        return await sendThroughOutbox(reply, grantId, emailRequest, attachments, sendAt);
+      } catch (error) {
+        return replyWithSendError(reply, error);
+      }
+    };
+
+  fastify.post('/api/messages/:id/reply', { bodyLimit }, composeHandler('reply'));
+  fastify.post('/api/messages/:id/reply-all', { bodyLimit }, composeHandler('reply-all'));
+  fastify.post('/api/messages/:id/forward', { bodyLimit }, composeHandler('forward'));
+}
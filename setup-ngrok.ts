@@ -10,7 +10,7 @@
  * @copyright Copyright (c) 2025 Aemal Sayer
  * 
  * Prerequisites:
- * 1. ngrok must be running (ngrok http 3002)
+ * 1. ngrok must be running (ngrok http <PORT>, 3002 by default)
  * 2. Your server must be running (bun run index.ts)
  * 
  * Run with: bun run setup-ngrok.ts
@@ -18,12 +18,16 @@
 
 import { execSync } from 'child_process';
 import axios from 'axios';
+import { config, requireSettings } from './config';
+
+requireSettings('setup-ngrok', ['PUBSUB_PROJECT_ID', 'PUBSUB_TOPIC']);
 
 // Configuration
-const PROJECT_ID = 'nylus-samantha';
-const TOPIC_NAME = 'nylas-samantha';
-const SUBSCRIPTION_NAME = 'nylas-push-subscription';
-const ACK_DEADLINE_SECONDS = 60;
+const PROJECT_ID = config.pubsub.projectId!;
+const TOPIC_NAME = config.pubsub.topic!;
+const SUBSCRIPTION_NAME = config.pubsub.pushSubscription;
+const ACK_DEADLINE_SECONDS = config.pubsub.ackDeadlineSeconds;
+const PORT = config.server.port;
 
 async function main() {
   try {
@@ -34,7 +38,7 @@ async function main() {
     const tunnels = response.data.tunnels;
     
     if (!tunnels || tunnels.length === 0) {
-      throw new Error('No active ngrok tunnels found. Please start ngrok with: ngrok http 3001');
+      throw new Error(`No active ngrok tunnels found. Please start ngrok with: ngrok http ${PORT}`);
     }
     
     // Find a secure tunnel (https)
@@ -87,10 +91,10 @@ async function main() {
     
     // Verify Fastify server is running
     try {
-      await axios.get('http://localhost:3002/');
-      console.log('✅ Fastify server is running on port 3002');
+      await axios.post(`http://localhost:${PORT}/`);
+      console.log(`✅ Fastify server is running on port ${PORT}`);
     } catch (error) {
-      console.warn('⚠️ Warning: Fastify server does not appear to be running on port 3002.');
+      console.warn(`⚠️ Warning: Fastify server does not appear to be running on port ${PORT}.`);
       console.warn('Please start your server with: bun run index.ts');
     }
     
@@ -105,7 +109,7 @@ async function main() {
       console.error(error.message);
       
       if (error.message.includes('ECONNREFUSED') && error.message.includes('4040')) {
-        console.error('\nngrok does not appear to be running. Start it with: ngrok http 3001');
+        console.error(`\nngrok does not appear to be running. Start it with: ngrok http ${PORT}`);
       }
     } else {
       console.error(String(error));
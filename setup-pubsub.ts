@@ -12,13 +12,16 @@
  */
 
 import { execSync } from 'child_process';
+import { config, requireSettings } from './config';
+
+requireSettings('setup-pubsub', ['PUBSUB_PROJECT_ID', 'PUBSUB_TOPIC', 'PUBSUB_PUSH_ENDPOINT']);
 
 // Configuration
-const PROJECT_ID = 'nylus-samantha'; // Your GCP project ID
-const TOPIC_NAME = 'nylas-samantha'; // Your Pub/Sub topic
-const SUBSCRIPTION_NAME = 'nylas-push-subscription'; // Name for the push subscription
-const PUSH_ENDPOINT = 'https://3eb9ff9f3873.ngrok.app/pubsub/nylas'; // Replace with your ngrok URL
-const ACK_DEADLINE_SECONDS = 60; // Time to acknowledge messages
+const PROJECT_ID = config.pubsub.projectId!; // Your GCP project ID
+const TOPIC_NAME = config.pubsub.topic!; // Your Pub/Sub topic
+const SUBSCRIPTION_NAME = config.pubsub.pushSubscription; // Name for the push subscription
+const PUSH_ENDPOINT = config.pubsub.pushEndpoint!; // Your public URL + /pubsub/nylas (e.g. from ngrok)
+const ACK_DEADLINE_SECONDS = config.pubsub.ackDeadlineSeconds; // Time to acknowledge messages
 
 console.log(`Setting up Pub/Sub push subscription for Nylas notifications`);
 console.log(`Project: ${PROJECT_ID}`);
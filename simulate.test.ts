@@ -0,0 +1,49 @@
+import { describe, expect, test } from 'bun:test';
+import { validateNotification } from './notification-schemas';
+import { buildNotification, buildPubSubEnvelope, TRIGGERS } from './simulate';
+
+describe('buildNotification', () => {
+  test.each(TRIGGERS)('builds a valid %s notification', (trigger) => {
+    const notification = validateNotification(buildNotification(trigger, { grantId: 'simulate-grant' }));
+    expect(notification.type).toBe(trigger);
+    expect(notification.data.grant_id).toBe('simulate-grant');
+  });
+
+  test('leaves the body out of a truncated message', () => {
+    const notification = buildNotification('message.updated', { grantId: 'simulate-grant', variant: 'truncated' });
+    expect(notification.type).toBe('message.updated.truncated');
+    expect(notification.data.object).not.toHaveProperty('body');
+    expect(validateNotification(notification).kind).toBe('message');
+  });
+
+  test('keeps the body of a transformed message', () => {
+    const notification = buildNotification('message.created', { grantId: 'simulate-grant', variant: 'transformed' });
+    expect(notification.type).toBe('message.created.transformed');
+    expect(notification.data.object).toHaveProperty('body');
+  });
+
+  test('merges overrides and reports the delivery attempt', () => {
+    const notification = buildNotification('message.created', {
+      grantId: 'simulate-grant',
+      attempt: 3,
+      overrides: { subject: 'Hello', folders: ['SENT'] }
+    });
+    expect(notification.webhook_delivery_attempt).toBe(3);
+    expect(notification.data.object).toMatchObject({ subject: 'Hello', folders: ['SENT'], from: [{ email: 'ada@example.com' }] });
+  });
+
+  test('gives every notification and object its own ID', () => {
+    const [first, second] = [1, 2].map(() => buildNotification('folder.created', { grantId: 'simulate-grant' }));
+    expect(first!.id).not.toBe(second!.id);
+    expect((first!.data.object as { id: string }).id).not.toBe((second!.data.object as { id: string }).id);
+  });
+});
+
+describe('buildPubSubEnvelope', () => {
+  test('wraps the notification as base64 message data', () => {
+    const notification = buildNotification('event.created', { grantId: 'simulate-grant' });
+    const envelope = buildPubSubEnvelope(notification, 2);
+    expect(envelope.deliveryAttempt).toBe(2);
+    expect(JSON.parse(Buffer.from(envelope.message.data, 'base64').toString('utf-8'))).toEqual(notification);
+  });
+});
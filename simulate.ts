@@ -0,0 +1,467 @@
+#!/usr/bin/env bun
+
+/**
+ * Nylas Pub/Sub Integration - Notification Simulator
+ *
+ * Sends realistic Nylas notifications to a running server so handlers can be
+ * exercised offline, without ngrok or a real mailbox. Webhooks are signed with
+ * the configured webhook secret; Pub/Sub pushes wrap the same notification in
+ * a base64 PubSubMessage envelope.
+ *
+ * @license MIT
+ * @copyright Copyright (c) 2025 Aemal Sayer
+ *
+ * Run with: bun run simulate.ts <command> [options]
+ *
+ * Commands:
+ *   webhook <trigger>     POST a signed notification to /webhook/nylas
+ *   pubsub <trigger>      POST a Pub/Sub push envelope to /pubsub/nylas
+ *   both <trigger>        Send the same notification through both routes
+ *   challenge             Check the GET challenge echo of /webhook/nylas
+ *   triggers              List the trigger types with sample payloads
+ *
+ * Options:
+ *   --url <url>               Server base URL (default: http://localhost:<PORT>)
+ *   --grant <id>              Grant ID (default: NYLAS_GRANT_ID)
+ *   --object <json>           Fields merged into the sample object, e.g. '{"subject":"Hi"}'
+ *   --variant <name>          transformed or truncated (adds the trigger suffix)
+ *   --attempt <n>             Delivery attempt to report (default: 1)
+ *   --duplicates <n>          Redeliver the same notification n more times
+ *   --count <n>               Send n distinct notifications (load burst)
+ *   --concurrency <n>         Requests in flight during a burst (default: 10)
+ *   --secret <secret>         Webhook signing secret (default: the configured one)
+ *   --unsigned                Send webhooks without a signature
+ *   --bad-signature           Send webhooks with a wrong signature
+ *   --token <jwt>             Bearer token for Pub/Sub pushes (when PUBSUB_VERIFY_TOKEN=true)
+ */
+
+import crypto from 'crypto';
+import { parseArgs } from 'util';
+import { config } from './config';
+import { getNotificationKind, type NotificationKind } from './notification-schemas';
+import type { NylasNotification, PubSubMessage } from './types';
+
+type Route = 'webhook' | 'pubsub';
+
+interface SendOptions {
+  baseUrl: string;
+  secret?: string;
+  unsigned: boolean;
+  badSignature: boolean;
+  token?: string;
+}
+
+interface SendResult {
+  route: Route;
+  status: number; // 0 when the request did not complete
+  ms: number;
+  body: string;
+}
+
+// Trigger types with a sample payload
+export const TRIGGERS = [
+  'message.created',
+  'message.updated',
+  'message.send_success',
+  'message.send_failed',
+  'message.bounce_detected',
+  'message.opened',
+  'message.link_clicked',
+  'thread.replied',
+  'event.created',
+  'event.updated',
+  'event.deleted',
+  'grant.created',
+  'grant.updated',
+  'grant.deleted',
+  'grant.expired',
+  'contact.created',
+  'contact.updated',
+  'contact.deleted',
+  'thread.created',
+  'thread.updated',
+  'thread.deleted',
+  'folder.created',
+  'folder.updated',
+  'folder.deleted'
+];
+
+const VARIANTS = ['transformed', 'truncated'];
+const APPLICATION_ID = 'simulated-application';
+
+function randomId(prefix: string): string {
+  return `${prefix}_${crypto.randomBytes(8).toString('hex')}`;
+}
+
+/**
+ * A plausible object for the trigger type, for the given grant
+ */
+function sampleObject(type: string, kind: NotificationKind, grantId: string): Record<string, unknown> {
+  const now = Math.floor(Date.now() / 1000);
+
+  switch (kind) {
+    case 'message':
+      return {
+        id: randomId('msg'),
+        grant_id: grantId,
+        object: 'message',
+        thread_id: randomId('thread'),
+        subject: 'Quarterly report',
+        from: [{ email: 'ada@example.com', name: 'Ada Lovelace' }],
+        to: [{ email: 'grace@example.com', name: 'Grace Hopper' }],
+        cc: [],
+        bcc: [],
+        reply_to: [],
+        date: now,
+        unread: type === 'message.created',
+        starred: false,
+        folders: ['INBOX'],
+        snippet: 'Here are the numbers for the last quarter...',
+        body: '<p>Here are the numbers for the last quarter.</p>',
+        attachments: []
+      };
+    case 'event':
+      return {
+        id: randomId('event'),
+        grant_id: grantId,
+        object: 'event',
+        calendar_id: 'primary',
+        title: 'Project sync',
+        status: type === 'event.deleted' ? 'cancelled' : 'confirmed',
+        busy: true,
+        when: { object: 'timespan', start_time: now + 3600, end_time: now + 5400 },
+        participants: [{ email: 'grace@example.com', name: 'Grace Hopper', status: 'yes' }],
+        organizer: { email: 'ada@example.com', name: 'Ada Lovelace' }
+      };
+    case 'grant':
+      return {
+        grant_id: grantId,
+        code: type === 'grant.expired' ? 25009 : undefined,
+        integration_id: randomId('integration'),
+        provider: 'google',
+        email: 'grace@example.com'
+      };
+    case 'contact':
+      return {
+        id: randomId('contact'),
+        grant_id: grantId,
+        object: 'contact',
+        given_name: 'Ada',
+        surname: 'Lovelace',
+        company_name: 'Analytical Engines',
+        emails: [{ email: 'ada@example.com', type: 'work' }],
+        phone_numbers: [{ number: '+1 555 0100', type: 'mobile' }]
+      };
+    case 'thread':
+      return {
+        id: randomId('thread'),
+        grant_id: grantId,
+        object: 'thread',
+        subject: 'Quarterly report',
+        participants: [{ email: 'ada@example.com', name: 'Ada Lovelace' }, { email: 'grace@example.com' }],
+        message_ids: [randomId('msg')],
+        folders: ['INBOX'],
+        unread: true,
+        starred: false,
+        latest_message_received_date: now
+      };
+    case 'folder':
+      return {
+        id: randomId('folder'),
+        grant_id: grantId,
+        object: 'folder',
+        name: 'Receipts',
+        system_folder: false,
+        total_count: 0,
+        unread_count: 0
+      };
+    case 'tracking': {
+      const tracked = { message_id: randomId('msg'), grant_id: grantId, label: 'simulated-campaign', sender_app_id: APPLICATION_ID, timestamp: now };
+      if (type === 'message.opened') {
+        return { ...tracked, message_data: { count: 1, timestamp: now }, recents: [{ opened_id: 0, timestamp: now, ip: '203.0.113.7', user_agent: 'Mozilla/5.0' }] };
+      }
+      if (type === 'message.link_clicked') {
+        return { ...tracked, link_data: [{ url: 'https://example.com/pricing', count: 1 }], recents: [{ click_id: 0, link_index: 0, timestamp: now, ip: '203.0.113.7' }] };
+      }
+      return { ...tracked, root_message_id: tracked.message_id, message_id: randomId('msg'), thread_id: randomId('thread'), reply_data: { count: 1 } };
+    }
+    case 'bounce':
+      return {
+        grant_id: grantId,
+        bounce_date: now,
+        bounce_reason: 'Mailbox not found',
+        bounced_address: 'nobody@example.com',
+        code: 550,
+        type: 'mailbox_unavailable',
+        origin: {
+          id: randomId('msg'),
+          thread_id: randomId('thread'),
+          subject: 'Quarterly report',
+          from: [{ email: 'grace@example.com', name: 'Grace Hopper' }],
+          to: [{ email: 'nobody@example.com' }],
+          date: now
+        }
+      };
+    default:
+      return { id: randomId('object'), grant_id: grantId };
+  }
+}
+
+function notificationSource(kind: NotificationKind): string {
+  switch (kind) {
+    case 'grant':
+      return '/nylas/system';
+    case 'tracking':
+      return '/nylas/tracking';
+    case 'event':
+      return '/google/calendar/realtime';
+    default:
+      return '/google/emails/realtime';
+  }
+}
+
+/**
+ * Build a notification envelope, optionally as a .transformed or .truncated variant
+ */
+export function buildNotification(
+  trigger: string,
+  options: { grantId: string; variant?: string; attempt?: number; overrides?: Record<string, unknown> }
+): NylasNotification {
+  const kind = getNotificationKind(trigger);
+  const object: Record<string, unknown> = { ...sampleObject(trigger, kind, options.grantId), ...options.overrides };
+
+  // Nylas leaves out the body when a message is too large to send in full
+  if (options.variant === 'truncated') {
+    delete object.body;
+  }
+
+  return {
+    specversion: '1.0',
+    type: options.variant ? `${trigger}.${options.variant}` : trigger,
+    source: notificationSource(kind),
+    id: crypto.randomUUID(),
+    time: Math.floor(Date.now() / 1000),
+    webhook_delivery_attempt: options.attempt ?? 1,
+    data: {
+      application_id: APPLICATION_ID,
+      grant_id: options.grantId,
+      object
+    }
+  } as NylasNotification;
+}
+
+/**
+ * Wrap a notification the way a Pub/Sub push subscription delivers it
+ */
+export function buildPubSubEnvelope(notification: NylasNotification, deliveryAttempt = 1): PubSubMessage & { deliveryAttempt: number } {
+  return {
+    message: {
+      data: Buffer.from(JSON.stringify(notification)).toString('base64'),
+      messageId: String(Math.floor(Math.random() * 1e16)),
+      publishTime: new Date().toISOString(),
+      attributes: {}
+    },
+    subscription: `projects/${config.pubsub.projectId ?? 'simulated-project'}/subscriptions/${config.pubsub.pushSubscription}`,
+    deliveryAttempt
+  };
+}
+
+async function send(route: Route, notification: NylasNotification, options: SendOptions): Promise<SendResult> {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  let body: string;
+
+  if (route === 'webhook') {
+    body = JSON.stringify(notification);
+    if (options.badSignature) {
+      headers['X-Nylas-Signature'] = crypto.randomBytes(32).toString('hex');
+    } else if (!options.unsigned && options.secret) {
+      headers['X-Nylas-Signature'] = crypto.createHmac('sha256', options.secret).update(body).digest('hex');
+    }
+  } else {
+    body = JSON.stringify(buildPubSubEnvelope(notification, notification.webhook_delivery_attempt));
+    if (options.token) {
+      headers['Authorization'] = `Bearer ${options.token}`;
+    }
+  }
+
+  const started = performance.now();
+  try {
+    const response = await fetch(`${options.baseUrl}/${route}/nylas`, { method: 'POST', headers, body });
+    return { route, status: response.status, ms: performance.now() - started, body: await response.text() };
+  } catch (error) {
+    return { route, status: 0, ms: performance.now() - started, body: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+function printResult(result: SendResult, notification: NylasNotification): void {
+  const icon = result.status >= 200 && result.status < 300 ? '✅' : '❌';
+  console.log(
+    `${icon} ${result.route} ${notification.type} ${notification.id} (attempt ${notification.webhook_delivery_attempt}): `
+      + `${result.status || 'no response'} in ${result.ms.toFixed(0)}ms ${result.body}`
+  );
+}
+
+function percentile(sorted: number[], p: number): number {
+  return sorted[Math.min(sorted.length - 1, Math.floor((sorted.length * p) / 100))] ?? 0;
+}
+
+/**
+ * Send `count` distinct notifications with at most `concurrency` in flight and report the results
+ */
+async function burst(routes: Route[], build: () => NylasNotification, count: number, concurrency: number, options: SendOptions) {
+  const results: SendResult[] = [];
+  let next = 0;
+  const started = performance.now();
+
+  const workers = Array.from({ length: Math.min(concurrency, count) }, async () => {
+    while (next < count) {
+      next++;
+      const notification = build();
+      for (const route of routes) {
+        results.push(await send(route, notification, options));
+      }
+    }
+  });
+  await Promise.all(workers);
+
+  const seconds = (performance.now() - started) / 1000;
+  const statuses = new Map<number, number>();
+  for (const result of results) {
+    statuses.set(result.status, (statuses.get(result.status) ?? 0) + 1);
+  }
+  const latencies = results.map((result) => result.ms).sort((a, b) => a - b);
+
+  console.log(`Sent ${results.length} request(s) in ${seconds.toFixed(2)}s (${(results.length / seconds).toFixed(1)}/s)`);
+  console.log(`Status codes: ${[...statuses].map(([status, total]) => `${status || 'no response'} x${total}`).join(', ')}`);
+  console.log(`Latency: p50 ${percentile(latencies, 50).toFixed(0)}ms, p95 ${percentile(latencies, 95).toFixed(0)}ms, max ${latencies[latencies.length - 1]!.toFixed(0)}ms`);
+}
+
+async function checkChallenge(baseUrl: string): Promise<boolean> {
+  const challenge = `simulated-challenge-${crypto.randomBytes(4).toString('hex')}`;
+  const response = await fetch(`${baseUrl}/webhook/nylas?challenge=${challenge}`, { headers: { Accept: 'text/plain' } });
+  const text = await response.text();
+
+  if (text === challenge) {
+    console.log(`✅ Challenge echoed exactly (${response.status}, ${response.headers.get('content-type')})`);
+    return true;
+  }
+  console.log(`❌ Challenge not echoed exactly (${response.status}): expected "${challenge}", received "${text}"`);
+  if (text.startsWith('{') || text.includes(`"${challenge}"`)) {
+    console.log('The response looks like JSON; Nylas expects the plain challenge value');
+  }
+  return false;
+}
+
+function usage(): never {
+  console.error('Usage: bun run simulate.ts <webhook|pubsub|both|challenge|triggers> [trigger] [options]');
+  console.error('See the header of simulate.ts for the options.');
+  process.exit(1);
+}
+
+function positiveInteger(value: string | undefined, name: string, fallback: number): number {
+  if (value === undefined) {
+    return fallback;
+  }
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < (name === '--duplicates' ? 0 : 1)) {
+    throw new Error(`${name} must be a ${name === '--duplicates' ? 'non-negative' : 'positive'} integer`);
+  }
+  return number;
+}
+
+async function main() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      url: { type: 'string', default: `http://localhost:${config.server.port}` },
+      grant: { type: 'string' },
+      object: { type: 'string' },
+      variant: { type: 'string' },
+      attempt: { type: 'string' },
+      duplicates: { type: 'string' },
+      count: { type: 'string' },
+      concurrency: { type: 'string' },
+      secret: { type: 'string' },
+      unsigned: { type: 'boolean', default: false },
+      'bad-signature': { type: 'boolean', default: false },
+      token: { type: 'string' }
+    }
+  });
+
+  const [command, trigger] = positionals;
+  const baseUrl = values.url!.replace(/\/+$/, '');
+
+  if (command === 'triggers') {
+    for (const type of TRIGGERS) {
+      console.log(`${type.padEnd(24)} ${getNotificationKind(type)}`);
+    }
+    console.log(`\nVariants (--variant): ${VARIANTS.join(', ')}`);
+    return;
+  }
+  if (command === 'challenge') {
+    if (!(await checkChallenge(baseUrl))) {
+      process.exit(1);
+    }
+    return;
+  }
+  if (command !== 'webhook' && command !== 'pubsub' && command !== 'both') {
+    usage();
+  }
+  if (!trigger) {
+    throw new Error(`${command} requires a trigger type, e.g. message.created (see: bun run simulate.ts triggers)`);
+  }
+  if (values.variant && !VARIANTS.includes(values.variant)) {
+    throw new Error(`--variant must be one of: ${VARIANTS.join(', ')}`);
+  }
+  if (!TRIGGERS.includes(trigger)) {
+    console.warn(`⚠️ ${trigger} has no sample payload; sending a generic object`);
+  }
+
+  let overrides: Record<string, unknown> | undefined;
+  if (values.object) {
+    try {
+      overrides = JSON.parse(values.object);
+    } catch {
+      throw new Error('--object must be a JSON object');
+    }
+  }
+
+  const routes: Route[] = command === 'both' ? ['webhook', 'pubsub'] : [command];
+  const attempt = positiveInteger(values.attempt, '--attempt', 1);
+  const duplicates = positiveInteger(values.duplicates, '--duplicates', 0);
+  const count = positiveInteger(values.count, '--count', 1);
+  const concurrency = positiveInteger(values.concurrency, '--concurrency', 10);
+  const options: SendOptions = {
+    baseUrl,
+    secret: values.secret ?? config.webhook.secrets[0],
+    unsigned: values.unsigned!,
+    badSignature: values['bad-signature']!,
+    token: values.token
+  };
+  const build = () => buildNotification(trigger, { grantId: values.grant || config.nylas.grantId || 'simulated-grant', variant: values.variant, attempt, overrides });
+
+  if (routes.includes('webhook') && !options.secret && !options.unsigned) {
+    console.warn('⚠️ No webhook secret configured (NYLAS_WEBHOOK_SECRET or --secret); sending unsigned');
+  }
+
+  if (count > 1) {
+    await burst(routes, build, count, concurrency, options);
+    return;
+  }
+
+  // The first delivery, then redeliveries of the same notification with increasing attempts
+  const notification = build();
+  for (let delivery = 0; delivery <= duplicates; delivery++) {
+    const copy = { ...notification, webhook_delivery_attempt: attempt + delivery };
+    for (const route of routes) {
+      printResult(await send(route, copy, options), copy);
+    }
+  }
+}
+
+if (import.meta.main) {
+  main().catch((error) => {
+    console.error('❌ Simulation failed:', error instanceof Error ? error.message : String(error));
+    process.exit(1);
+  });
+}
@@ -0,0 +1,119 @@
+/**
+ * Nylas Pub/Sub Integration - Stream Routes
+ * 
+ * GET /api/stream serves the live notification stream as Server-Sent Events,
+ * or as a WebSocket when the request is an upgrade. Both accept the optional
+ * filters `grant_id` and `types` (comma-separated, wildcards allowed).
+ * SSE frames are unnamed, so EventSource.onmessage receives them; the
+ * notification type is the `type` field of the data.
+ * 
+ * @license MIT
+ * @copyright Copyright (c) 2025 Aemal Sayer
+ */
+
+import type { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
+import type { WebSocket } from '@fastify/websocket';
+import { eventsSince, getStreamStatus, matchesFilter, subscribe, type StreamEvent, type StreamFilter } from './notification-stream';
+
+const HEARTBEAT_INTERVAL_MS = 15000;
+
+interface StreamQuerystring {
+  grant_id?: string;
+  types?: string;
+  last_event_id?: string; // For EventSource polyfills that cannot set headers
+}
+
+function splitList(value?: string): string[] | undefined {
+  const items = value?.split(',').map((item) => item.trim()).filter(Boolean);
+  return items && items.length > 0 ? items : undefined;
+}
+
+function parseFilter(query: StreamQuerystring): StreamFilter {
+  return {
+    grants: splitList(query.grant_id),
+    triggers: splitList(query.types)
+  };
+}
+
+function formatSse({ id, event }: StreamEvent): string {
+  return `id: ${id}\ndata: ${JSON.stringify(event)}\n\n`;
+}
+
+async function handleSse(request: FastifyRequest<{ Querystring: StreamQuerystring }>, reply: FastifyReply) {
+  const filter = parseFilter(request.query);
+  const header = request.headers['last-event-id'];
+  const lastEventId = (Array.isArray(header) ? header[0] : header) ?? request.query.last_event_id;
+
+  reply.hijack();
+  const res = reply.raw;
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    'Connection': 'keep-alive',
+    'X-Accel-Buffering': 'no',
+    'Access-Control-Allow-Origin': request.headers.origin || '*'
+  });
+  res.write('retry: 3000\n\n');
+
+  // Replay what the client missed while disconnected
+  if (lastEventId !== undefined) {
+    const { events, complete } = eventsSince(lastEventId);
+    if (!complete) {
+      res.write(`data: ${JSON.stringify({ type: 'stream.gap', last_event_id: lastEventId })}\n\n`);
+    }
+    for (const streamEvent of events) {
+      if (matchesFilter(streamEvent.event, filter)) {
+        res.write(formatSse(streamEvent));
+      }
+    }
+  }
+
+  const unsubscribe = subscribe((streamEvent) => {
+    if (matchesFilter(streamEvent.event, filter)) {
+      res.write(formatSse(streamEvent));
+    }
+  });
+
+  // Comment lines keep proxies from closing an idle connection
+  const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), HEARTBEAT_INTERVAL_MS);
+
+  request.raw.on('close', () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+  });
+}
+
+function handleWebSocket(socket: WebSocket, request: FastifyRequest<{ Querystring: StreamQuerystring }>) {
+  let filter = parseFilter(request.query);
+
+  const unsubscribe = subscribe((streamEvent) => {
+    if (matchesFilter(streamEvent.event, filter)) {
+      socket.send(JSON.stringify({ seq: streamEvent.seq, ...streamEvent.event }));
+    }
+  });
+
+  // Clients may change their filters with {"grant_id": "...", "types": "message.*"}
+  socket.on('message', (data) => {
+    try {
+      filter = parseFilter(JSON.parse(data.toString()));
+      socket.send(JSON.stringify({ type: 'stream.filter', filter }));
+    } catch {
+      socket.send(JSON.stringify({ type: 'stream.error', message: 'Expected a JSON filter object' }));
+    }
+  });
+
+  socket.on('close', unsubscribe);
+}
+
+export async function streamRoutes(fastify: FastifyInstance) {
+  fastify.route<{ Querystring: StreamQuerystring }>({
+    method: 'GET',
+    url: '/api/stream',
+    handler: handleSse,
+    wsHandler: handleWebSocket
+  });
+
+  fastify.get('/api/stream/status', async (request, reply) => {
+    return getStreamStatus();
+  });
+}
@@ -0,0 +1,32 @@
+/**
+ * Nylas Pub/Sub Integration - Template Routes
+ * 
+ * Lists the stored email templates and renders them without sending.
+ * 
+ * @license MIT
+ * @copyright Copyright (c) 2025 Aemal Sayer
+ */
+
+import type { FastifyInstance } from 'fastify';
+import { listTemplates, renderTemplate, TemplateError } from './email-templates';
+
+export async function templateRoutes(fastify: FastifyInstance) {
+  fastify.get('/api/templates', async (request, reply) => {
+    return { data: listTemplates() };
+  });
+
+  // Render a template with sample variables, e.g. { "variables": { "name": "Ada" } }
+  fastify.post<{ Params: { name: string }; Body: { variables?: Record<string, unknown> } | undefined }>(
+    '/api/templates/:name/preview',
+    async (request, reply) => {
+      try {
+        return renderTemplate(request.params.name, request.body?.variables);
+      } catch (error) {
+        if (error instanceof TemplateError) {
+          return reply.code(error.statusCode).send({ error: 'Template error', message: error.message });
+        }
+        throw error;
+      }
+    }
+  );
+}
@@ -0,0 +1,44 @@
+/**
+ * Nylas Pub/Sub Integration - Test Setup
+ *
+ * Preloaded by `bun test` (see bunfig.toml) before any module reads the
+ * configuration: tests use an in-memory database, never call Nylas and log nothing.
+ *
+ * @license MIT
+ * @copyright Copyright (c) 2025 Aemal Sayer
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+process.env.DATABASE_PATH = ':memory:';
+process.env.LOG_LEVEL = 'silent';
+// Tests that call Nylas start a stand-in on this port
+process.env.NYLAS_API_URI = 'http://127.0.0.1:3199';
+process.env.NYLAS_API_KEY = 'test-api-key';
+process.env.NYLAS_GRANT_ID = 'test-grant';
+process.env.NYLAS_CLIENT_ID = 'test-client';
+// The current webhook secret and one kept from a rotation
+process.env.NYLAS_WEBHOOK_SECRET = 'test-webhook-secret';
+process.env.NYLAS_WEBHOOK_SECRETS = 'test-previous-secret';
+// Downstream subscribers for the fanout-grant grant only, retried quickly
+process.env.SUBSCRIBERS_FILE = 'test-subscribers.json';
+process.env.FANOUT_MAX_ATTEMPTS = '3';
+process.env.FANOUT_BASE_DELAY_MS = '10';
+// Rules for messages from @rules-test.example only (see inbox-rules.test.ts)
+process.env.RULES_FILE = 'test-rules.json';
+// The pull worker talks to the stand-in as if it were the emulator
+process.env.PUBSUB_EMULATOR_HOST = '127.0.0.1:3199';
+
+// Pub/Sub push tokens are checked against a key made for this run; the private
+// half sits next to the JWKS for pubsub-auth.test.ts to sign with
+const keyDir = fs.mkdtempSync(path.join(os.tmpdir(), 'nylas-test-'));
+const { publicKey, privateKey } = crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' });
+fs.writeFileSync(path.join(keyDir, 'jwks.json'), JSON.stringify({ keys: [{ ...publicKey.export({ format: 'jwk' }), kid: 'test-key', alg: 'ES256', use: 'sig' }] }));
+fs.writeFileSync(path.join(keyDir, 'private-key.json'), JSON.stringify(privateKey.export({ format: 'jwk' })));
+process.env.PUBSUB_VERIFY_TOKEN = 'true';
+process.env.PUBSUB_JWKS_FILE = path.join(keyDir, 'jwks.json');
+process.env.PUBSUB_AUDIENCE = 'https://push.test/pubsub/nylas';
+process.env.PUBSUB_SERVICE_ACCOUNT_EMAIL = 'push@test-project.iam.gserviceaccount.com';
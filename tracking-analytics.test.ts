@@ -0,0 +1,73 @@
+import { describe, expect, test } from 'bun:test';
+import { dispatcher } from './notification-dispatcher';
+import { validateNotification } from './notification-schemas';
+import { buildNotification } from './simulate';
+import { getTrackingReport, recordTrackedMessage } from './tracking-analytics';
+
+const SENT_AT = Date.UTC(2025, 4, 1) / 1000;
+
+function track(messageId: string, label: string) {
+  recordTrackedMessage({
+    message_id: messageId,
+    grant_id: 'test-grant',
+    subject: 'Spring offer',
+    tracking_options: { opens: true, links: true, thread_replies: true, label },
+    sent_at: SENT_AT * 1000
+  });
+}
+
+// Run the tracking handlers only, as Nylas would deliver the notification
+async function deliver(trigger: string, overrides: Record<string, unknown>) {
+  const notification = validateNotification(buildNotification(trigger, { grantId: 'test-grant', overrides }));
+  await dispatcher.dispatch(notification, 'webhook', { only: ['tracking'] });
+}
+
+describe('getTrackingReport', () => {
+  test('counts running totals once and computes rates against tracked messages', async () => {
+    const label = 'spring-offer';
+    track('offer-1', label);
+    track('offer-2', label);
+
+    // Counts are running totals: the second open notification reports 3 opens in all
+    await deliver('message.opened', { message_id: 'offer-1', label, message_data: { count: 1, timestamp: SENT_AT + 10 } });
+    await deliver('message.opened', { message_id: 'offer-1', label, message_data: { count: 3, timestamp: SENT_AT + 20 } });
+    await deliver('message.link_clicked', { message_id: 'offer-1', label, link_data: [{ url: 'https://example.com/a', count: 2 }] });
+    await deliver('message.link_clicked', { message_id: 'offer-2', label, link_data: [{ url: 'https://example.com/a', count: 1 }] });
+    await deliver('thread.replied', { message_id: 'reply-1', root_message_id: 'offer-2', label, timestamp: SENT_AT + 120 });
+
+    const report = getTrackingReport({ label });
+    expect(report.messages_sent).toBe(2);
+    expect(report.opens).toEqual({ tracked_messages: 2, unique_opens: 1, total_opens: 3, open_rate: 0.5 });
+    expect(report.clicks).toEqual({ total_clicks: 3, links: [{ url: 'https://example.com/a', clicks: 3, unique_clicks: 2 }] });
+    expect(report.replies).toEqual({
+      tracked_messages: 2,
+      replied_messages: 1,
+      reply_rate: 0.5,
+      avg_latency_seconds: 120,
+      median_latency_seconds: 120
+    });
+  });
+
+  test('leaves messages known only from tracking events out of the rates', async () => {
+    const label = 'summer-offer';
+    track('summer-1', label);
+    track('summer-2', label);
+
+    // Sent elsewhere: Nylas reports opens and a reply for it, but nothing says how it was tracked
+    await deliver('message.opened', { message_id: 'elsewhere-1', label, message_data: { count: 2, timestamp: SENT_AT + 10 } });
+    await deliver('thread.replied', { message_id: 'reply-2', root_message_id: 'elsewhere-1', label, timestamp: SENT_AT + 60 });
+    await deliver('message.opened', { message_id: 'summer-1', label, message_data: { count: 1, timestamp: SENT_AT + 30 } });
+
+    const report = getTrackingReport({ label });
+    expect(report.messages_sent).toBe(3);
+    expect(report.opens).toEqual({ tracked_messages: 2, unique_opens: 2, total_opens: 3, open_rate: 0.5 });
+    expect(report.replies).toMatchObject({ tracked_messages: 2, replied_messages: 1, reply_rate: 0 });
+  });
+
+  test('reports no rates when nothing was tracked', () => {
+    const report = getTrackingReport({ label: 'unused-label' });
+    expect(report.messages_sent).toBe(0);
+    expect(report.opens.open_rate).toBeNull();
+    expect(report.replies.reply_rate).toBeNull();
+  });
+});
@@ -0,0 +1,363 @@
+/**
+ * Nylas Pub/Sub Integration - Tracking Analytics
+ *
+ * Stores message.opened, message.link_clicked and thread.replied
+ * notifications per sent message and reports on them per tracking label:
+ * open rate, unique opens, clicks per link and reply latency. Messages sent
+ * through the outbox with `tracking_options` are recorded when they are
+ * sent, so the report knows how many were sent and when.
+ *
+ * @license MIT
+ * @copyright Copyright (c) 2025 Aemal Sayer
+ */
+
+import { db } from './database';
+import { getLogger } from './logger';
+import { dispatcher } from './notification-dispatcher';
+import type { TrackingNotification } from './notification-schemas';
+import type { SendEmailRequest } from './types';
+
+export type TrackingEventType = 'open' | 'click' | 'reply';
+
+export interface TrackedMessageInput {
+  message_id: string;
+  grant_id: string;
+  subject: string;
+  tracking_options: NonNullable<SendEmailRequest['tracking_options']>;
+  sent_at: number; // Milliseconds
+}
+
+export interface ReportQuery {
+  label?: string;
+  grant_id?: string;
+  since?: number; // Messages sent at or after (milliseconds)
+  until?: number; // Messages sent before (milliseconds)
+}
+
+export interface LinkClicks {
+  url: string;
+  clicks: number;
+  unique_clicks: number; // Messages in which the link was clicked
+}
+
+export interface TrackingReport {
+  label: string | null;
+  messages_sent: number;
+  opens: {
+    tracked_messages: number; // Messages sent with open tracking
+    unique_opens: number; // Messages opened at least once
+    total_opens: number;
+    open_rate: number | null;
+  };
+  clicks: {
+    total_clicks: number;
+    links: LinkClicks[];
+  };
+  replies: {
+    tracked_messages: number; // Messages sent with reply tracking
+    replied_messages: number;
+    reply_rate: number | null;
+    avg_latency_seconds: number | null; // Sent to first reply
+    median_latency_seconds: number | null;
+  };
+}
+
+interface TrackedMessageRow {
+  message_id: string;
+  grant_id: string | null;
+  label: string | null;
+  subject: string | null;
+  track_opens: number | null;
+  track_links: number | null;
+  track_replies: number | null;
+  sent_at: number | null;
+}
+
+interface TrackingEventRow {
+  type: TrackingEventType;
+  url: string | null;
+  count: number | null;
+  occurred_at: number;
+}
+
+db.exec(`
+  CREATE TABLE IF NOT EXISTS tracked_messages (
+    message_id TEXT PRIMARY KEY,
+    grant_id TEXT,
+    label TEXT,
+    subject TEXT,
+    track_opens INTEGER,
+    track_links INTEGER,
+    track_replies INTEGER,
+    sent_at INTEGER
+  );
+  CREATE INDEX IF NOT EXISTS tracked_messages_label ON tracked_messages (label, sent_at);
+
+  CREATE TABLE IF NOT EXISTS tracking_events (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    notification_id TEXT NOT NULL,
+    type TEXT NOT NULL,
+    message_id TEXT NOT NULL,
+    url TEXT,
+    count INTEGER,
+    occurred_at INTEGER NOT NULL,
+    received_at INTEGER NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS tracking_events_message ON tracking_events (message_id, type);
+`);
+
+const upsertTrackedMessage = db.prepare(`
+  INSERT INTO tracked_messages (message_id, grant_id, label, subject, track_opens, track_links, track_replies, sent_at)
+  VALUES ($message_id, $grant_id, $label, $subject, $track_opens, $track_links, $track_replies, $sent_at)
+  ON CONFLICT (message_id) DO UPDATE SET
+    grant_id = excluded.grant_id,
+    label = excluded.label,
+    subject = excluded.subject,
+    track_opens = excluded.track_opens,
+    track_links = excluded.track_links,
+    track_replies = excluded.track_replies,
+    sent_at = excluded.sent_at
+`);
+
+// Messages not sent through this server are known only from their tracking events
+const insertUnknownMessage = db.prepare(`
+  INSERT INTO tracked_messages (message_id, grant_id, label) VALUES ($message_id, $grant_id, $label)
+  ON CONFLICT (message_id) DO UPDATE SET label = COALESCE(tracked_messages.label, excluded.label)
+`);
+
+const insertEvent = db.prepare(`
+  INSERT INTO tracking_events (notification_id, type, message_id, url, count, occurred_at, received_at)
+  VALUES ($notification_id, $type, $message_id, $url, $count, $occurred_at, $received_at)
+`);
+
+const selectTrackedMessage = db.prepare('SELECT * FROM tracked_messages WHERE message_id = $message_id');
+const selectEvents = db.prepare(
+  'SELECT type, url, count, occurred_at FROM tracking_events WHERE message_id = $message_id ORDER BY occurred_at'
+);
+const selectLabels = db.prepare('SELECT DISTINCT label FROM tracked_messages WHERE label IS NOT NULL ORDER BY label');
+
+/**
+ * Record a message sent with tracking enabled
+ */
+export function recordTrackedMessage(input: TrackedMessageInput): void {
+  const { opens, links, thread_replies, label } = input.tracking_options;
+  upsertTrackedMessage.run({
+    $message_id: input.message_id,
+    $grant_id: input.grant_id,
+    $label: label ?? null,
+    $subject: input.subject,
+    $track_opens: opens ? 1 : 0,
+    $track_links: links ? 1 : 0,
+    $track_replies: thread_replies ? 1 : 0,
+    $sent_at: input.sent_at
+  });
+}
+
+function ratio(part: number, whole: number): number | null {
+  return whole > 0 ? Math.round((part / whole) * 10000) / 10000 : null;
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) {
+    return null;
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return Math.round(sorted.length % 2 === 1 ? sorted[middle]! : (sorted[middle - 1]! + sorted[middle]!) / 2);
+}
+
+// The counts in Nylas notifications are running totals, so the latest (largest) one wins
+const PER_MESSAGE_COUNT = 'COALESCE(MAX(count), COUNT(*))';
+
+/**
+ * Open, click and reply figures for the messages matching the query
+ */
+export function getTrackingReport(query: ReportQuery = {}): TrackingReport {
+  const conditions: string[] = [];
+  const params: Record<string, string | number> = {};
+
+  if (query.label) {
+    conditions.push('label = $label');
+    params.$label = query.label;
+  }
+  if (query.grant_id) {
+    conditions.push('grant_id = $grant_id');
+    params.$grant_id = query.grant_id;
+  }
+  if (query.since !== undefined) {
+    conditions.push('sent_at >= $since');
+    params.$since = query.since;
+  }
+  if (query.until !== undefined) {
+    conditions.push('sent_at < $until');
+    params.$until = query.until;
+  }
+  const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+  const scoped = `SELECT message_id FROM tracked_messages ${where}`;
+  // Rates only count messages sent with that tracking on, not those known only from their events
+  const openTracked = `${scoped} ${where ? 'AND' : 'WHERE'} track_opens = 1`;
+
+  const counts = db
+    .prepare(`
+      SELECT COUNT(*) AS sent,
+        COALESCE(SUM(track_opens = 1), 0) AS open_tracked,
+        COALESCE(SUM(track_replies = 1), 0) AS reply_tracked
+      FROM tracked_messages ${where}
+    `)
+    .get(params) as { sent: number; open_tracked: number; reply_tracked: number };
+
+  const opens = db
+    .prepare(`
+      SELECT COUNT(*) AS unique_opens, COALESCE(SUM(opens), 0) AS total_opens,
+        COALESCE(SUM(message_id IN (${openTracked})), 0) AS tracked_opens
+      FROM (
+        SELECT message_id, ${PER_MESSAGE_COUNT} AS opens FROM tracking_events
+        WHERE type = 'open' AND message_id IN (${scoped})
+        GROUP BY message_id
+      )
+    `)
+    .get(params) as { unique_opens: number; total_opens: number; tracked_opens: number };
+
+  const links = db
+    .prepare(`
+      SELECT url, SUM(clicks) AS clicks, COUNT(*) AS unique_clicks FROM (
+        SELECT message_id, url, ${PER_MESSAGE_COUNT} AS clicks FROM tracking_events
+        WHERE type = 'click' AND message_id IN (${scoped})
+        GROUP BY message_id, url
+      )
+      GROUP BY url ORDER BY clicks DESC, url
+    `)
+    .all(params) as LinkClicks[];
+
+  const replies = db
+    .prepare(`
+      SELECT m.sent_at, m.track_replies, MIN(e.occurred_at) AS first_reply_at FROM tracked_messages m
+      JOIN tracking_events e ON e.message_id = m.message_id AND e.type = 'reply'
+      WHERE m.message_id IN (${scoped})
+      GROUP BY m.message_id
+    `)
+    .all(params) as { sent_at: number | null; track_replies: number | null; first_reply_at: number }[];
+
+  const latencies = replies
+    .filter((reply) => reply.sent_at !== null && reply.first_reply_at >= reply.sent_at)
+    .map((reply) => (reply.first_reply_at - reply.sent_at!) / 1000);
+
+  return {
+    label: query.label ?? null,
+    messages_sent: counts.sent,
+    opens: {
+      tracked_messages: counts.open_tracked,
+      unique_opens: opens.unique_opens,
+      total_opens: opens.total_opens,
+      open_rate: ratio(opens.tracked_opens, counts.open_tracked)
+    },
+    clicks: {
+      total_clicks: links.reduce((total, link) => total + link.clicks, 0),
+      links
+    },
+    replies: {
+      tracked_messages: counts.reply_tracked,
+      replied_messages: replies.length,
+      reply_rate: ratio(replies.filter((reply) => reply.track_replies === 1).length, counts.reply_tracked),
+      avg_latency_seconds: latencies.length > 0
+        ? Math.round(latencies.reduce((total, latency) => total + latency, 0) / latencies.length)
+        : null,
+      median_latency_seconds: median(latencies)
+    }
+  };
+}
+
+/**
+ * A report for every label seen so far
+ */
+export function getLabelReports(query: Omit<ReportQuery, 'label'> = {}): TrackingReport[] {
+  return (selectLabels.all() as { label: string }[]).map(({ label }) => getTrackingReport({ ...query, label }));
+}
+
+/**
+ * Tracking details and events for a single message, or null if nothing is known about it
+ */
+export function getMessageTracking(messageId: string) {
+  const message = selectTrackedMessage.get({ $message_id: messageId }) as TrackedMessageRow | null;
+  if (!message) {
+    return null;
+  }
+  const events = selectEvents.all({ $message_id: messageId }) as TrackingEventRow[];
+  const toIso = (timestamp: number | null) => (timestamp === null ? null : new Date(timestamp).toISOString());
+
+  // Running totals: the largest count per link wins
+  const opens = events.filter((event) => event.type === 'open');
+  const clicks = new Map<string, number>();
+  for (const event of events.filter((event) => event.type === 'click' && event.url)) {
+    clicks.set(event.url!, Math.max(clicks.get(event.url!) ?? 0, event.count ?? 1));
+  }
+  const firstReply = events.find((event) => event.type === 'reply');
+
+  return {
+    message_id: message.message_id,
+    grant_id: message.grant_id,
+    label: message.label,
+    subject: message.subject,
+    sent_at: toIso(message.sent_at),
+    // Unknown for messages not sent through this server
+    tracking: message.track_opens === null
+      ? null
+      : { opens: message.track_opens === 1, links: message.track_links === 1, thread_replies: message.track_replies === 1 },
+    opens: opens.length > 0 ? Math.max(...opens.map((event) => event.count ?? opens.length)) : 0,
+    clicks: [...clicks].map(([url, count]) => ({ url, clicks: count })),
+    replied: !!firstReply,
+    first_reply_latency_seconds: firstReply && message.sent_at !== null
+      ? Math.round((firstReply.occurred_at - message.sent_at) / 1000)
+      : null,
+    events: events.map((event) => ({ ...event, occurred_at: toIso(event.occurred_at) }))
+  };
+}
+
+function occurredAt(notification: TrackingNotification, timestamp?: number): number {
+  const seconds = timestamp ?? notification.data.object.timestamp ?? notification.time;
+  return seconds ? seconds * 1000 : Date.now();
+}
+
+const recordEvents = db.transaction(
+  (notification: TrackingNotification, messageId: string, events: { type: TrackingEventType; url?: string; count?: number; at: number }[]) => {
+    insertUnknownMessage.run({
+      $message_id: messageId,
+      $grant_id: notification.data.grant_id ?? notification.data.object.grant_id ?? null,
+      $label: notification.data.object.label ?? null
+    });
+    for (const event of events) {
+      insertEvent.run({
+        $notification_id: notification.id,
+        $type: event.type,
+        $message_id: messageId,
+        $url: event.url ?? null,
+        $count: event.count ?? null,
+        $occurred_at: event.at,
+        $received_at: Date.now()
+      });
+    }
+  }
+);
+
+// Store tracking notifications against the message they are about
+dispatcher.on('message.opened', (notification) => {
+  const { message_id, message_data, label } = notification.data.object;
+  recordEvents(notification, message_id, [
+    { type: 'open', count: message_data?.count, at: occurredAt(notification, message_data?.timestamp) }
+  ]);
+  getLogger().info(`📈 Message ${message_id} opened${label ? ` (${label})` : ''}, ${message_data?.count ?? 1} open(s) so far`);
+}, 'tracking');
+
+dispatcher.on('message.link_clicked', (notification) => {
+  const { message_id, link_data, label } = notification.data.object;
+  const at = occurredAt(notification);
+  recordEvents(notification, message_id, (link_data ?? []).map((link) => ({ type: 'click' as const, url: link.url, count: link.count, at })));
+  getLogger().info(`📈 Link clicked in message ${message_id}${label ? ` (${label})` : ''}: ${link_data?.map((link) => link.url).join(', ') || 'unknown link'}`);
+}, 'tracking');
+
+dispatcher.on('thread.replied', (notification) => {
+  const { message_id, root_message_id, reply_data, label } = notification.data.object;
+  const trackedId = root_message_id ?? message_id;
+  recordEvents(notification, trackedId, [{ type: 'reply', count: reply_data?.count, at: occurredAt(notification) }]);
+  getLogger().info(`📈 Reply to message ${trackedId}${label ? ` (${label})` : ''}`);
+}, 'tracking');
@@ -0,0 +1,68 @@
+/**
+ * Nylas Pub/Sub Integration - Tracking Report Routes
+ *
+ * Open, click and reply figures for messages sent with `tracking_options`,
+ * per tracking label or per message.
+ *
+ * @license MIT
+ * @copyright Copyright (c) 2025 Aemal Sayer
+ */
+
+import type { FastifyInstance } from 'fastify';
+import { getLabelReports, getMessageTracking, getTrackingReport, type ReportQuery } from './tracking-analytics';
+
+interface ReportQuerystring {
+  label?: string;
+  grant_id?: string;
+  since?: string; // Unix seconds or ISO 8601
+  until?: string;
+}
+
+/**
+ * Unix seconds or an ISO 8601 date, as milliseconds
+ */
+function toMillis(value: string | undefined): number | undefined | null {
+  if (!value) {
+    return undefined;
+  }
+  const millis = /^\d+$/.test(value) ? Number(value) * 1000 : Date.parse(value);
+  return Number.isFinite(millis) ? millis : null;
+}
+
+function parseQuery(query: ReportQuerystring): ReportQuery | string {
+  const since = toMillis(query.since);
+  const until = toMillis(query.until);
+  if (since === null || until === null) {
+    return '"since" and "until" must be Unix timestamps in seconds or ISO 8601 dates';
+  }
+  return { label: query.label, grant_id: query.grant_id, since, until };
+}
+
+export async function trackingRoutes(fastify: FastifyInstance) {
+  // e.g. /api/tracking/report?label=spring-campaign&since=2025-05-01
+  fastify.get<{ Querystring: ReportQuerystring }>('/api/tracking/report', async (request, reply) => {
+    const query = parseQuery(request.query);
+    if (typeof query === 'string') {
+      return reply.code(400).send({ error: 'Invalid request', message: query });
+    }
+    return getTrackingReport(query);
+  });
+
+  // One report per tracking label
+  fastify.get<{ Querystring: ReportQuerystring }>('/api/tracking/labels', async (request, reply) => {
+    const query = parseQuery(request.query);
+    if (typeof query === 'string') {
+      return reply.code(400).send({ error: 'Invalid request', message: query });
+    }
+    const reports = getLabelReports(query);
+    return { data: reports, count: reports.length };
+  });
+
+  fastify.get<{ Params: { id: string } }>('/api/tracking/messages/:id', async (request, reply) => {
+    const tracking = getMessageTracking(request.params.id);
+    if (!tracking) {
+      return reply.code(404).send({ error: 'No tracking data for this message', id: request.params.id });
+    }
+    return tracking;
+  });
+}
@@ -0,0 +1,74 @@
+/**
+ * Nylas Pub/Sub Integration - Shared Types
+ * 
+ * Interfaces shared between the Fastify server and the notification handlers.
+ * 
+ * @license MIT
+ * @copyright Copyright (c) 2025 Aemal Sayer
+ */
+
+// Define interface for email recipient
+export interface EmailRecipient {
+  email: string;
+  name?: string;
+}
+
+// Base64 attachment in a JSON send request
+export interface AttachmentInput {
+  filename: string;
+  content_type: string;
+  content: string; // Base64-encoded file contents
+  content_id?: string; // Set to reference the file inline, e.g. <img src="cid:logo">
+}
+
+// Define interface for sending email
+export interface SendEmailRequest {
+  to: EmailRecipient[];
+  subject: string;
+  body: string;
+  cc?: EmailRecipient[];
+  bcc?: EmailRecipient[];
+  reply_to?: EmailRecipient[];
+  tracking_options?: {
+    opens?: boolean;
+    links?: boolean;
+    thread_replies?: boolean;
+    label?: string;
+  };
+  send_draft?: boolean; // Option to send draft immediately
+  grant_id?: string; // Grant to send as (default: NYLAS_GRANT_ID)
+  attachments?: AttachmentInput[];
+  send_at?: number | string; // Unix seconds or ISO 8601; queued until then
+  template?: string; // Stored template to render into subject and body
+  variables?: Record<string, unknown>; // Values for the template
+  reply_to_message_id?: string; // Message being replied to (set by the reply routes)
+}
+
+// Define Nylas notification payload types
+export interface NylasNotification {
+  specversion: string;
+  type: string;
+  source: string;
+  id: string;
+  time?: number;
+  webhook_delivery_attempt?: number;
+  data: {
+    application_id: string;
+    grant_id?: string;
+    object: unknown; // Typed per trigger once validated (see notification-schemas.ts)
+  };
+}
+
+// Define Google Pub/Sub message type
+export interface PubSubMessage {
+  message: {
+    data: string; // Base64 encoded message data
+    messageId: string;
+    publishTime: string;
+    attributes?: Record<string, string>;
+  };
+  subscription: string;
+}
+
+// How a notification reached the server
+export type NotificationTransport = 'webhook' | 'pubsub';
@@ -0,0 +1,41 @@
+import crypto from 'crypto';
+import { describe, expect, test } from 'bun:test';
+import { verifyWebhookSignature } from './webhook-signature';
+
+const body = Buffer.from(JSON.stringify({ id: 'notification-1', type: 'message.created' }));
+
+function sign(secret: string, payload: Buffer = body): string {
+  return crypto.createHmac('sha256', secret).update(payload).digest('hex');
+}
+
+describe('verifyWebhookSignature', () => {
+  test('verifies a signature made with the current secret', () => {
+    expect(verifyWebhookSignature(body, sign('test-webhook-secret'))).toEqual({ status: 'verified', secretIndex: 0 });
+  });
+
+  test('verifies a signature made with a secret kept from a rotation', () => {
+    expect(verifyWebhookSignature(body, sign('test-previous-secret'))).toEqual({ status: 'verified', secretIndex: 1 });
+  });
+
+  test('accepts an upper-case signature and takes the first of repeated headers', () => {
+    const signature = sign('test-webhook-secret').toUpperCase();
+    expect(verifyWebhookSignature(body, [signature, 'ignored']).status).toBe('verified');
+  });
+
+  test.each([
+    ['an unknown secret', sign('some-other-secret')],
+    ['a tampered body', sign('test-webhook-secret', Buffer.from('{}'))],
+    ['a truncated signature', sign('test-webhook-secret').slice(0, 32)],
+    ['a non-hex signature', 'not-a-signature']
+  ])('rejects %s', (_, signature) => {
+    expect(verifyWebhookSignature(body, signature)).toEqual({ status: 'invalid' });
+  });
+
+  test('needs the raw body to check a signature', () => {
+    expect(verifyWebhookSignature(undefined, sign('test-webhook-secret'))).toEqual({ status: 'missing_raw_body' });
+  });
+
+  test('lets unsigned requests through outside strict mode', () => {
+    expect(verifyWebhookSignature(body, undefined).status).toBe('skipped');
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * Nylas Pub/Sub Integration - Webhook Signature Verification
+ * 
+ * Verifies the X-Nylas-Signature header against the raw request bytes.
+ * Several secrets can be active at once (NYLAS_WEBHOOK_SECRETS, comma-separated,
+ * plus NYLAS_WEBHOOK_SECRET) so a webhook secret can be rotated without
+ * dropping traffic. With NYLAS_WEBHOOK_STRICT=true, unsigned requests are rejected.
+ * 
+ * @license MIT
+ * @copyright Copyright (c) 2025 Aemal Sayer
+ */
+
+import crypto from 'crypto';
+import { config } from './config';
+
+export const WEBHOOK_STRICT_MODE = config.webhook.strict;
+
+// Every secret currently accepted, newest first
+export const webhookSecrets: string[] = config.webhook.secrets;
+
+export type SignatureResult =
+  | { status: 'verified'; secretIndex: number }
+  | { status: 'invalid' | 'missing_signature' | 'missing_raw_body' }
+  | { status: 'skipped'; reason: string };
+
+/**
+ * Compare two hex digests in constant time
+ */
+function digestsMatch(expectedHex: string, receivedHex: string): boolean {
+  const expected = Buffer.from(expectedHex, 'hex');
+  const received = Buffer.from(receivedHex, 'hex');
+  // timingSafeEqual requires equal lengths; a length mismatch is not secret
+  return expected.length === received.length && crypto.timingSafeEqual(expected, received);
+}
+
+/**
+ * Check a webhook signature against every active secret.
+ * Outside strict mode, requests without a signature (or without configured
+ * secrets) are allowed through with status "skipped".
+ */
+export function verifyWebhookSignature(
+  rawBody: Buffer | undefined,
+  signatureHeader: string | string[] | undefined
+): SignatureResult {
+  const signature = Array.isArray(signatureHeader) ? signatureHeader[0] : signatureHeader;
+
+  if (webhookSecrets.length === 0) {
+    return { status: 'skipped', reason: 'no webhook secret configured' };
+  }
+
+  if (!signature) {
+    return WEBHOOK_STRICT_MODE
+      ? { status: 'missing_signature' }
+      : { status: 'skipped', reason: 'request is not signed' };
+  }
+
+  if (!rawBody) {
+    return { status: 'missing_raw_body' };
+  }
+
+  const received = signature.trim().toLowerCase();
+  if (!/^[0-9a-f]+$/.test(received)) {
+    return { status: 'invalid' };
+  }
+
+  // Check every secret so timing does not reveal which one matched
+  let secretIndex = -1;
+  webhookSecrets.forEach((secret, index) => {
+    const computed = crypto.createHmac('sha256', secret).update(rawBody).digest('hex');
+    if (digestsMatch(computed, received) && secretIndex === -1) {
+      secretIndex = index;
+    }
+  });
+
+  return secretIndex === -1 ? { status: 'invalid' } : { status: 'verified', secretIndex };
+}
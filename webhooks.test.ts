@@ -0,0 +1,59 @@
+import { afterEach, beforeEach, describe, expect, mock, spyOn, test } from 'bun:test';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { config } from './config';
+import { defaultEnvFile, storeSecret } from './webhooks';
+
+describe('storeSecret', () => {
+  const cwd = process.cwd();
+  const profileFile = `.env.${config.profile}`;
+  let dir: string;
+
+  const read = (file: string) => fs.readFileSync(path.join(dir, file), 'utf-8');
+
+  beforeEach(() => {
+    // Env files resolve against the working directory, so work in a scratch one
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'webhooks-test-'));
+    process.chdir(dir);
+    spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    process.chdir(cwd);
+    mock.restore();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('keeps earlier secrets on rotation without duplicates', () => {
+    fs.writeFileSync('.env', 'NYLAS_API_KEY=key\nNYLAS_WEBHOOK_SECRET=first\n');
+    storeSecret('.env', 'second', true);
+    storeSecret('.env', 'third', true);
+    storeSecret('.env', 'third', true);
+    expect(read('.env')).toBe('NYLAS_API_KEY=key\nNYLAS_WEBHOOK_SECRET=third\nNYLAS_WEBHOOK_SECRETS=first,second\n');
+  });
+
+  test('replaces the secret without keeping it when not rotating', () => {
+    fs.writeFileSync('.env', 'NYLAS_WEBHOOK_SECRET=first\n');
+    storeSecret('.env', 'second', false);
+    expect(read('.env')).toBe('NYLAS_WEBHOOK_SECRET=second\n');
+  });
+
+  test('defaults to the profile env file when it exists', () => {
+    expect(defaultEnvFile()).toBe('.env');
+    fs.writeFileSync(profileFile, 'LOG_LEVEL=debug\n');
+    expect(defaultEnvFile()).toBe(profileFile);
+  });
+
+  test('warns when the profile env file shadows the secret', () => {
+    const warn = spyOn(console, 'warn').mockImplementation(() => {});
+    fs.writeFileSync(profileFile, 'NYLAS_WEBHOOK_SECRET=old\n');
+    storeSecret('.env', 'new', false);
+    expect(warn).toHaveBeenCalledTimes(1);
+    expect(warn.mock.calls[0]?.[0]).toContain(`${profileFile} also sets NYLAS_WEBHOOK_SECRET`);
+
+    warn.mockClear();
+    storeSecret(profileFile, 'new', false);
+    expect(warn).not.toHaveBeenCalled();
+  });
+});
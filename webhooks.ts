@@ -0,0 +1,303 @@
+#!/usr/bin/env bun
+
+/**
+ * Nylas Pub/Sub Integration - Webhook Management CLI
+ *
+ * Manage Nylas webhooks through the /v3/webhooks API.
+ *
+ * @license MIT
+ * @copyright Copyright (c) 2025 Aemal Sayer
+ *
+ * Run with: bun run webhooks.ts <command> [options]
+ *
+ * Commands:
+ *   list                                       List webhooks
+ *   create --url <url> --triggers <a,b,...>    Create a webhook
+ *          [--description <text>] [--email <address>] [--write-env]
+ *   update <id> [--url <url>] [--triggers <a,b,...>] [--description <text>]
+ *          [--email <address>] [--status active|inactive]
+ *   rotate-secret <id> [--write-env]           Rotate the webhook secret
+ *   delete <id>                                Delete a webhook
+ *   test --url <url> --trigger <type>          Ask Nylas to send a test event
+ *
+ * Nylas returns a secret only when it is created or rotated, so create and
+ * rotate-secret print it in full; other commands mask it unless --show-secret is
+ * passed. --write-env stores the new secret as NYLAS_WEBHOOK_SECRET in .env (or
+ * --env-file <path>) instead of printing it; on rotation the previous secret is
+ * kept in NYLAS_WEBHOOK_SECRETS so traffic keeps verifying until Nylas switches over.
+ * The default env file is the active profile's (.env.<APP_PROFILE>) when it
+ * exists, since its values take precedence over .env.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { parseArgs } from 'util';
+import axios from 'axios';
+import { config, requireSettings } from './config';
+
+// Webhook object returned by the Nylas API
+export interface NylasWebhook {
+  id: string;
+  description?: string;
+  trigger_types: string[];
+  webhook_url: string;
+  webhook_secret?: string;
+  status?: string;
+  notification_email_addresses?: string[];
+  status_updated_at?: number;
+  created_at?: number;
+  updated_at?: number;
+}
+
+export interface WebhookInput {
+  trigger_types?: string[];
+  webhook_url?: string;
+  description?: string;
+  notification_email_addresses?: string[];
+  status?: 'active' | 'inactive';
+}
+
+function client() {
+  requireSettings('webhooks', ['NYLAS_API_KEY']);
+  return axios.create({
+    baseURL: `${config.nylas.apiUri}/v3/webhooks`,
+    headers: {
+      'Authorization': `Bearer ${config.nylas.apiKey}`,
+      'Content-Type': 'application/json',
+      'Accept': 'application/json'
+    }
+  });
+}
+
+export async function listWebhooks(): Promise<NylasWebhook[]> {
+  const response = await client().get('');
+  return response.data.data;
+}
+
+export async function createWebhook(input: WebhookInput): Promise<NylasWebhook> {
+  const response = await client().post('', input);
+  return response.data.data;
+}
+
+export async function updateWebhook(id: string, input: WebhookInput): Promise<NylasWebhook> {
+  const response = await client().put(`/${encodeURIComponent(id)}`, input);
+  return response.data.data;
+}
+
+export async function rotateWebhookSecret(id: string): Promise<NylasWebhook> {
+  const response = await client().post(`/rotate-secret/${encodeURIComponent(id)}`);
+  return response.data.data;
+}
+
+export async function deleteWebhook(id: string): Promise<void> {
+  await client().delete(`/${encodeURIComponent(id)}`);
+}
+
+export async function sendTestEvent(webhookUrl: string, triggerType: string): Promise<unknown> {
+  const response = await client().post('/send-test-event', {
+    trigger_type: triggerType,
+    webhook_url: webhookUrl
+  });
+  return response.data;
+}
+
+/**
+ * Set a variable in a .env file, replacing an existing line or appending one
+ */
+export function writeEnvValue(file: string, key: string, value: string): void {
+  const lines = fs.existsSync(file) ? fs.readFileSync(file, 'utf-8').split('\n') : [];
+  const index = lines.findIndex((line) => line.startsWith(`${key}=`));
+  if (index === -1) {
+    if (lines.length > 0 && lines[lines.length - 1] === '') {
+      lines.splice(lines.length - 1, 0, `${key}=${value}`);
+    } else {
+      lines.push(`${key}=${value}`, '');
+    }
+  } else {
+    lines[index] = `${key}=${value}`;
+  }
+  fs.writeFileSync(file, lines.join('\n'));
+}
+
+/**
+ * Where --write-env stores secrets by default: the active profile's env file
+ * when there is one (it overrides .env, see config.ts), otherwise .env
+ */
+export function defaultEnvFile(): string {
+  const profileFile = `.env.${config.profile}`;
+  return fs.existsSync(profileFile) ? profileFile : '.env';
+}
+
+function readEnvValue(file: string, key: string): string | undefined {
+  if (!fs.existsSync(file)) {
+    return undefined;
+  }
+  const line = fs.readFileSync(file, 'utf-8').split('\n').find((l) => l.startsWith(`${key}=`));
+  return line?.slice(key.length + 1);
+}
+
+/**
+ * Store a new webhook secret. When rotating, the previous secret stays active
+ * in NYLAS_WEBHOOK_SECRETS so deliveries signed with it still verify.
+ */
+export function storeSecret(file: string, secret: string, keepPrevious: boolean): void {
+  const previous = readEnvValue(file, 'NYLAS_WEBHOOK_SECRET');
+  writeEnvValue(file, 'NYLAS_WEBHOOK_SECRET', secret);
+  if (keepPrevious && previous && previous !== secret) {
+    // Append to the secrets already kept from earlier rotations
+    const kept = splitList(readEnvValue(file, 'NYLAS_WEBHOOK_SECRETS')) ?? [];
+    const secrets = [...new Set([...kept, previous])].filter((value) => value !== secret);
+    writeEnvValue(file, 'NYLAS_WEBHOOK_SECRETS', secrets.join(','));
+    console.log(`Previous secret kept in NYLAS_WEBHOOK_SECRETS; remove it once deliveries verify with the new one`);
+  }
+  console.log(`Webhook secret written to ${file}`);
+
+  // A value in the profile file would win over the one just written
+  const profileFile = `.env.${config.profile}`;
+  if (path.resolve(file) !== path.resolve(profileFile) && readEnvValue(profileFile, 'NYLAS_WEBHOOK_SECRET') !== undefined) {
+    console.warn(`⚠️ ${profileFile} also sets NYLAS_WEBHOOK_SECRET and takes precedence; update it or pass --env-file ${profileFile}`);
+  }
+}
+
+function splitList(value?: string): string[] | undefined {
+  return value ? value.split(',').map((item) => item.trim()).filter(Boolean) : undefined;
+}
+
+function printWebhook(webhook: NylasWebhook, showSecret: boolean): void {
+  console.log(`${webhook.id}  [${webhook.status || 'unknown'}]  ${webhook.webhook_url}`);
+  if (webhook.description) {
+    console.log(`  Description: ${webhook.description}`);
+  }
+  console.log(`  Triggers: ${webhook.trigger_types.join(', ')}`);
+  if (webhook.notification_email_addresses?.length) {
+    console.log(`  Notification emails: ${webhook.notification_email_addresses.join(', ')}`);
+  }
+  if (webhook.webhook_secret) {
+    console.log(`  Secret: ${showSecret ? webhook.webhook_secret : `${webhook.webhook_secret.substring(0, 4)}… (use --show-secret or --write-env)`}`);
+  }
+}
+
+function usage(): never {
+  console.error('Usage: bun run webhooks.ts <list|create|update|rotate-secret|delete|test> [options]');
+  console.error('See the header of webhooks.ts for the options of each command.');
+  process.exit(1);
+}
+
+async function main() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      url: { type: 'string' },
+      triggers: { type: 'string' },
+      trigger: { type: 'string' },
+      description: { type: 'string' },
+      email: { type: 'string', multiple: true },
+      status: { type: 'string' },
+      'write-env': { type: 'boolean', default: false },
+      'env-file': { type: 'string' },
+      'show-secret': { type: 'boolean', default: false }
+    }
+  });
+
+  const envFile = values['write-env'] ? values['env-file'] ?? defaultEnvFile() : undefined;
+  const showSecret = values['show-secret'] ?? false;
+  const [command, id] = positionals;
+
+  switch (command) {
+    case 'list': {
+      const webhooks = await listWebhooks();
+      if (webhooks.length === 0) {
+        console.log('No webhooks registered.');
+      }
+      webhooks.forEach((webhook) => printWebhook(webhook, showSecret));
+      break;
+    }
+
+    case 'create': {
+      const triggers = splitList(values.triggers);
+      if (!values.url || !triggers) {
+        throw new Error('create requires --url and --triggers');
+      }
+      const webhook = await createWebhook({
+        trigger_types: triggers,
+        webhook_url: values.url,
+        description: values.description,
+        notification_email_addresses: values.email
+      });
+      console.log('Webhook created:');
+      // Shown once: print it in full unless it is being written to the env file
+      printWebhook(webhook, showSecret || !envFile);
+      if (envFile && webhook.webhook_secret) {
+        storeSecret(envFile, webhook.webhook_secret, false);
+      }
+      break;
+    }
+
+    case 'update': {
+      if (!id) {
+        throw new Error('update requires a webhook ID');
+      }
+      if (values.status && values.status !== 'active' && values.status !== 'inactive') {
+        throw new Error('--status must be "active" or "inactive"');
+      }
+      const webhook = await updateWebhook(id, {
+        trigger_types: splitList(values.triggers),
+        webhook_url: values.url,
+        description: values.description,
+        notification_email_addresses: values.email,
+        status: values.status as WebhookInput['status']
+      });
+      console.log('Webhook updated:');
+      printWebhook(webhook, showSecret);
+      break;
+    }
+
+    case 'rotate-secret': {
+      if (!id) {
+        throw new Error('rotate-secret requires a webhook ID');
+      }
+      const webhook = await rotateWebhookSecret(id);
+      console.log('Webhook secret rotated:');
+      printWebhook(webhook, showSecret || !envFile);
+      if (envFile && webhook.webhook_secret) {
+        storeSecret(envFile, webhook.webhook_secret, true);
+      }
+      break;
+    }
+
+    case 'delete': {
+      if (!id) {
+        throw new Error('delete requires a webhook ID');
+      }
+      await deleteWebhook(id);
+      console.log(`Webhook ${id} deleted.`);
+      break;
+    }
+
+    case 'test': {
+      if (!values.url || !values.trigger) {
+        throw new Error('test requires --url and --trigger');
+      }
+      const result = await sendTestEvent(values.url, values.trigger);
+      console.log(`Test ${values.trigger} event sent to ${values.url}`);
+      console.log(JSON.stringify(result, null, 2));
+      break;
+    }
+
+    default:
+      usage();
+  }
+}
+
+if (import.meta.main) {
+  main().catch((error) => {
+    console.error('❌ Webhook command failed:');
+    if (axios.isAxiosError(error) && error.response) {
+      console.error(`Status: ${error.response.status} ${error.response.statusText}`);
+      console.error('Error details:', JSON.stringify(error.response.data, null, 2));
+    } else {
+      console.error(error instanceof Error ? error.message : String(error));
+    }
+    process.exit(1);
+  });
+}